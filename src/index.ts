@@ -1,5 +1,5 @@
 import 'dotenv/config';
-import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
@@ -9,11 +9,15 @@ import {
     getDetailedAnalytics,
     getWhitelist,
     addToWhitelist,
-    removeFromWhitelist
+    removeFromWhitelist,
+    getReclaimableAccounts
 } from './lib/database';
 import { Discoverer } from './lib/discoverer';
-import { Reclaimer } from './lib/reclaimer';
+import { Reclaimer, ReclaimSelection, UntrackedAccountsError } from './lib/reclaimer';
+import { finalizePendingReclaims } from './lib/finalizer';
+import { DryRunReport, printDryRunReport, saveDryRunReports } from './lib/dry-run';
 import { getActiveRpcUrl } from './lib/rpc';
+import { Signer, SignerConfig, createSigner, unlockSigners } from './lib/signer';
 
 // Configuration
 const RPC_URL = getActiveRpcUrl();
@@ -22,53 +26,114 @@ const OPERATORS_CONFIG_PATH = process.env.OPERATORS_CONFIG_PATH || './operators.
 
 const program = new Command();
 
-function loadKeypair(keypairPath: string): Keypair {
+function resolveKeypairPath(keypairPath: string): string {
+    // Resolve relative paths from sidecar directory
+    return path.isAbsolute(keypairPath)
+        ? keypairPath
+        : fs.existsSync(keypairPath)
+            ? path.resolve(keypairPath)
+            : path.resolve(__dirname, '..', keypairPath);
+}
+
+/**
+ * Build a signer from a --wallet value or an operators.json entry.
+ * Strings are keypair file paths, or `env:VAR` for a base58 secret key in an env var.
+ */
+function loadSigner(entry: string | SignerConfig): Signer {
+    let config: SignerConfig;
+    if (typeof entry === 'string') {
+        config = entry.startsWith('env:')
+            ? { type: 'env', env: entry.slice(4) }
+            : { type: 'file', path: entry };
+    } else {
+        config = entry;
+    }
+    if (config.type === 'file' || config.type === 'keystore') {
+        config = { ...config, path: resolveKeypairPath(config.path) };
+    }
+
     try {
-        // Resolve relative paths from sidecar directory
-        const resolvedPath = path.isAbsolute(keypairPath)
-            ? keypairPath
-            : fs.existsSync(keypairPath)
-                ? path.resolve(keypairPath)
-                : path.resolve(__dirname, '..', keypairPath);
-        const secretKey = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
-        return Keypair.fromSecretKey(new Uint8Array(secretKey));
-    } catch (e) {
-        console.error(`❌ Failed to load keypair from ${keypairPath}. Ensure it exists.`);
+        return createSigner(config);
+    } catch (e: any) {
+        console.error(`❌ Failed to load signer ${typeof entry === 'string' ? entry : entry.type}: ${e.message}`);
         process.exit(1);
     }
 }
 
 /**
- * Load operator registry from operators.json
+ * Load operators.json ({ operators: [...], multisigSigners?: [...], reclaimDestinations?: { operator: wallet } })
  */
-function loadOperatorRegistry(): string[] {
+function loadOperatorsConfig(): {
+    operators?: Array<string | SignerConfig>;
+    multisigSigners?: Array<string | SignerConfig>;
+    reclaimDestinations?: Record<string, string>;
+} {
     try {
         const configPath = path.isAbsolute(OPERATORS_CONFIG_PATH)
             ? OPERATORS_CONFIG_PATH
             : path.resolve(__dirname, '..', OPERATORS_CONFIG_PATH);
         if (fs.existsSync(configPath)) {
-            const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-            return config.operators || [];
+            return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
         }
     } catch (e) {
         console.error(`⚠️ Failed to load operators.json: ${e}`);
     }
-    return [];
+    return {};
+}
+
+/**
+ * Load operator registry from operators.json
+ */
+function loadOperatorRegistry(): Array<string | SignerConfig> {
+    return loadOperatorsConfig().operators || [];
+}
+
+/**
+ * Co-signers for accounts whose close authority is an SPL Token multisig (operators.json `multisigSigners`)
+ */
+function loadMultisigSigners(): Signer[] {
+    return (loadOperatorsConfig().multisigSigners || []).map(e => loadSigner(e));
+}
+
+/**
+ * Where closed accounts send their rent: operators.json `reclaimDestinations`, then RECLAIM_DESTINATION, then the operator itself
+ */
+function getReclaimDestination(operator: PublicKey): PublicKey {
+    const configured = loadOperatorsConfig().reclaimDestinations?.[operator.toBase58()] || process.env.RECLAIM_DESTINATION;
+    if (!configured) return operator;
+    try {
+        return new PublicKey(configured);
+    } catch {
+        console.error(`❌ Invalid reclaim destination for ${operator.toBase58()}: ${configured}`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Unlock keystore operators before signing. Exits on a wrong or missing passphrase.
+ */
+async function unlockOperators(operators: Signer[], options: { passphraseFile?: string }): Promise<void> {
+    try {
+        await unlockSigners(operators, options);
+    } catch (e: any) {
+        console.error(`❌ ${e.message}`);
+        process.exit(1);
+    }
 }
 
 /**
  * Get operators based on --wallet or --all flag
  */
-function getOperators(options: { wallet?: string; all?: boolean }): Keypair[] {
+function getOperators(options: { wallet?: string; all?: boolean }): Signer[] {
     if (options.all) {
-        const paths = loadOperatorRegistry();
-        if (paths.length === 0) {
-            console.error('❌ No operators in operators.json. Add keypair paths to use --all.');
+        const entries = loadOperatorRegistry();
+        if (entries.length === 0) {
+            console.error('❌ No operators in operators.json. Add keypair paths or signer entries to use --all.');
             process.exit(1);
         }
-        return paths.map(p => loadKeypair(p));
+        return entries.map(e => loadSigner(e));
     }
-    return [loadKeypair(options.wallet || OPERATOR_KEYPAIR_PATH)];
+    return [loadSigner(options.wallet || OPERATOR_KEYPAIR_PATH)];
 }
 
 async function getMergedWhitelist(): Promise<string[]> {
@@ -83,6 +148,65 @@ async function getMergedWhitelist(): Promise<string[]> {
     return Array.from(new Set([...dbWhitelist, ...fileWhitelist]));
 }
 
+const DURATION_UNITS_MS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+/**
+ * Account selection flags shared by `start` and `sweep`
+ */
+function addSelectionOptions(command: Command): Command {
+    return command
+        .option('--mint <mints>', 'Only reclaim accounts of these mints (comma-separated)')
+        .option('--user-wallet <wallets>', 'Only reclaim accounts owned by these wallets (comma-separated)')
+        .option('--source <sources>', 'Only reclaim accounts with this sponsorship source, e.g. KORA_DIRECT (comma-separated)')
+        .option('--older-than <duration>', 'Only reclaim accounts created more than this long ago (e.g. 30d, 12h, 2w)')
+        .option('--min-lamports <lamports>', 'Only reclaim accounts holding at least this much rent')
+        .option('--max-accounts <count>', 'Reclaim at most this many accounts per operator per pass')
+        .option('--max-sol <sol>', 'Reclaim at most this much SOL per operator per pass');
+}
+
+function parseSelection(options: any): ReclaimSelection {
+    const list = (value?: string) => value ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+    const number = (flag: string, value?: string) => {
+        if (value === undefined) return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            console.error(`❌ Invalid ${flag}: ${value}`);
+            process.exit(1);
+        }
+        return parsed;
+    };
+
+    const selection: ReclaimSelection = {
+        mints: list(options.mint),
+        userWallets: list(options.userWallet),
+        sources: list(options.source),
+        minLamports: number('--min-lamports', options.minLamports),
+        maxAccounts: number('--max-accounts', options.maxAccounts)
+    };
+
+    const maxSol = number('--max-sol', options.maxSol);
+    if (maxSol !== undefined) selection.maxLamports = Math.floor(maxSol * LAMPORTS_PER_SOL);
+
+    if (options.olderThan) {
+        const match = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(options.olderThan.trim());
+        if (!match) {
+            console.error(`❌ Invalid --older-than: ${options.olderThan} (use e.g. 30d, 12h, 2w)`);
+            process.exit(1);
+        }
+        // Evaluated when the selection is parsed; `start` re-parses it each cycle
+        selection.createdBefore = Date.now() - parseFloat(match[1]) * DURATION_UNITS_MS[match[2]];
+    }
+
+    return selection;
+}
+
+/**
+ * `dir/name.ext` -> `dir/name<suffix>.ext` (`.csv` when the name has no extension)
+ */
+function withFileSuffix(file: string, suffix: string): string {
+    const { dir, name, ext } = path.parse(file);
+    return path.join(dir, `${name}${suffix}${ext || '.csv'}`);
+}
 
 program
     .name('korascan')
@@ -94,7 +218,7 @@ program
 
 program.command('init')
     .description('Initialize local database for operator(s)')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Initialize DBs for all operators in operators.json', false)
     .action(async (options) => {
         const operators = getOperators(options);
@@ -108,16 +232,24 @@ program.command('init')
  * 1. START (Automatic Mode)
  * Combines Webhook Listener + Periodic Polling
  */
-program.command('start')
+addSelectionOptions(program.command('start'))
     .description('Start automatic discovery and claiming (Webhooks + Polling)')
     .option('--claim', 'Enable automatic rent reclamation', false)
     .option('-p, --port <number>', 'Webhook listener port', '3333')
     .option('-i, --interval <hours>', 'Polling interval in hours', process.env.MONITOR_INTERVAL_HOURS || '2')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('--direct', 'Also find accounts by close authority via getProgramAccounts', false)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Run for all operators in operators.json', false)
+    .option('--passphrase-file <path>', 'File holding the keystore passphrase')
+    .option('--dry-run', 'Run the reclaim pipeline with simulation only: nothing is sent and reclaim statuses are not written (discovery still updates tracked accounts)', false)
+    .option('--dry-run-output <file>', 'Also write the dry-run preview as JSON (rewritten every cycle)')
     .action(async (options) => {
         const connection = new Connection(RPC_URL, 'confirmed');
         const operators = getOperators(options);
+        const reclaiming = options.claim || options.dryRun;
+        const coSigners = reclaiming ? loadMultisigSigners() : [];
+        if (options.claim && !options.dryRun) await unlockOperators([...operators, ...coSigners], options);
+        parseSelection(options); // Fail fast on bad selection flags
         const operatorAddresses = new Set(operators.map(op => op.publicKey.toBase58()));
 
         // Initialize DB for all
@@ -130,7 +262,7 @@ program.command('start')
         console.log(`\n🚀 KoraScan AUTOMATIC MODE started!`);
         console.log(`👥 Monitoring ${operators.length} operators:`);
         operators.forEach(op => console.log(`   - ${op.publicKey.toBase58()}`));
-        console.log(`💰 Auto-Claim: ${options.claim ? 'ENABLED (Proceed with caution)' : 'DISABLED (Discovery only)'}`);
+        console.log(`💰 Auto-Claim: ${options.dryRun ? 'DRY RUN (Simulation only)' : options.claim ? 'ENABLED (Proceed with caution)' : 'DISABLED (Discovery only)'}`);
 
         // --- 1. Start Webhook Server ---
         const express = require('express');
@@ -149,22 +281,37 @@ program.command('start')
         // --- 2. Start Polling Loop ---
         const runCycle = async () => {
             console.log(`\n[${new Date().toLocaleTimeString()}] Starting polling cycle...`);
+            const previews: DryRunReport[] = [];
 
             for (const operator of operators) {
                 try {
                     // Discover via history
                     const scanner = new Discoverer(connection, operator.publicKey);
                     await scanner.scan({ waitForSync: true, forceVerify: true });
+                    if (options.direct) await scanner.scanDirect();
 
-                    if (options.claim) {
+                    // Promote earlier reclaims to finalized (or back to reclaimable if dropped)
+                    if (!options.dryRun) await finalizePendingReclaims(connection, operator.publicKey.toBase58());
+
+                    if (reclaiming) {
                         const whitelist = await getMergedWhitelist();
-                        const reclaimer = new Reclaimer(connection, operator, { whitelist });
-                        await reclaimer.reclaimAllEligible();
+                        const reclaimer = new Reclaimer(connection, operator, { dryRun: options.dryRun, whitelist, coSigners, destination: getReclaimDestination(operator.publicKey) });
+                        await reclaimer.reclaimAllEligible(parseSelection(options));
+
+                        const preview = reclaimer.getDryRunReport();
+                        if (preview) {
+                            printDryRunReport(preview);
+                            previews.push(preview);
+                        }
                     }
                 } catch (e: any) {
                     console.error(`❌ Cycle failed for ${operator.publicKey.toBase58().slice(0, 8)}: ${e.message}`);
                 }
             }
+            if (options.dryRunOutput) {
+                saveDryRunReports(options.dryRunOutput, previews);
+                console.log(`📝 Dry-run preview written to ${options.dryRunOutput}`);
+            }
             console.log(`😴 Sleeping for ${options.interval} hours...`);
         };
 
@@ -176,33 +323,55 @@ program.command('start')
  * 2. SWEEP (One-time Mode)
  * Quick Discovery and Claim
  */
-program.command('sweep')
+addSelectionOptions(program.command('sweep'))
     .description('Run a one-time discovery and reclamation pass')
     .option('--claim', 'Execute reclaims after discovery', false)
     .option('--history', 'Use exhaustive history scan', false)
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('--direct', 'Also find accounts by close authority via getProgramAccounts', false)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Run sweep for all operators in operators.json', false)
+    .option('--passphrase-file <path>', 'File holding the keystore passphrase')
+    .option('--dry-run', 'Run the reclaim pipeline with simulation only: nothing is sent and reclaim statuses are not written (discovery still updates tracked accounts)', false)
+    .option('--dry-run-output <file>', 'Also write the dry-run preview as JSON')
     .action(async (options) => {
         const connection = new Connection(RPC_URL, 'confirmed');
         const operators = getOperators(options);
+        const reclaiming = options.claim || options.dryRun;
+        const coSigners = reclaiming ? loadMultisigSigners() : [];
+        if (options.claim && !options.dryRun) await unlockOperators([...operators, ...coSigners], options);
+        const selection = parseSelection(options);
 
         let totalReclaimed = 0;
         let totalAccounts = 0;
+        const previews: DryRunReport[] = [];
 
         for (const operator of operators) {
-            console.log(`\n🧹 Sweeping operator ${operator.publicKey.toBase58().slice(0, 8)}...`);
+            console.log(`\n🧹 Sweeping operator ${operator.publicKey.toBase58().slice(0, 8)}... (signer: ${operator.label})`);
             await initDbForOperator(operator.publicKey.toBase58());
 
             const scanner = new Discoverer(connection, operator.publicKey);
-            const { stats } = await scanner.scan({ waitForSync: true, forceVerify: true });
+            let { stats } = await scanner.scan({ waitForSync: true, forceVerify: true });
+            if (options.direct) {
+                const direct = await scanner.scanDirect();
+                if (direct.added > 0) stats = await getOperatorStats(operator.publicKey.toBase58());
+            }
             console.log(`✅ Scan complete. Tracked: ${stats.totalAccounts}`);
             totalAccounts += stats.totalAccounts;
 
-            if (options.claim) {
+            if (!options.dryRun) await finalizePendingReclaims(connection, operator.publicKey.toBase58());
+
+            if (reclaiming) {
                 const whitelist = await getMergedWhitelist();
-                const reclaimer = new Reclaimer(connection, operator, { whitelist });
-                const result = await reclaimer.reclaimAllEligible();
-                console.log(`💰 Reclaimed ${result.success} accounts, Total: ${result.sol.toFixed(4)} SOL`);
+                const reclaimer = new Reclaimer(connection, operator, { dryRun: options.dryRun, whitelist, coSigners, destination: getReclaimDestination(operator.publicKey) });
+                const result = await reclaimer.reclaimAllEligible(selection);
+
+                const preview = reclaimer.getDryRunReport();
+                if (preview) {
+                    printDryRunReport(preview);
+                    previews.push(preview);
+                } else {
+                    console.log(`💰 Reclaimed ${result.success} accounts, Total: ${result.sol.toFixed(4)} SOL`);
+                }
                 totalReclaimed += result.sol;
             } else {
                 const opStats = await getOperatorStats(operator.publicKey.toBase58());
@@ -210,9 +379,16 @@ program.command('sweep')
             }
         }
 
+        if (options.dryRunOutput && previews.length > 0) {
+            saveDryRunReports(options.dryRunOutput, previews);
+            console.log(`\n📝 Dry-run preview written to ${options.dryRunOutput}`);
+        }
+
         if (operators.length > 1) {
             console.log(`\n📊 TOTAL: ${totalAccounts} accounts across ${operators.length} operators`);
-            if (options.claim) {
+            if (options.dryRun) {
+                console.log(`🔍 Would reclaim: ${totalReclaimed.toFixed(4)} SOL`);
+            } else if (options.claim) {
                 console.log(`💰 Total Reclaimed: ${totalReclaimed.toFixed(4)} SOL`);
             } else {
                 console.log(`💡 Run with --claim to recover rent.`);
@@ -220,20 +396,172 @@ program.command('sweep')
         }
     });
 
+/**
+ * 3. RECLAIM (Targeted Mode)
+ * Specific accounts on request, e.g. retries of accounts in `error`
+ */
+program.command('reclaim')
+    .description('Verify and reclaim specific accounts by pubkey')
+    .argument('[pubkeys...]', 'Token accounts to reclaim')
+    .option('--from-file <path>', 'File of pubkeys (one per line, or a JSON array)')
+    .option('--force-untracked', 'Also reclaim accounts not tracked for this operator', false)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
+    .option('--passphrase-file <path>', 'File holding the keystore passphrase')
+    .option('--dry-run', 'Verify and simulate only: nothing is sent or written', false)
+    .option('--dry-run-output <file>', 'Also write the dry-run preview as JSON')
+    .action(async (args: string[], options) => {
+        const requested = [...args];
+        if (options.fromFile) {
+            let fromFile: unknown;
+            try {
+                const content = fs.readFileSync(options.fromFile, 'utf-8').trim();
+                fromFile = /^[\[{"]/.test(content) ? JSON.parse(content) : content.split(/\s+/);
+            } catch (e: any) {
+                console.error(`❌ Cannot read ${options.fromFile}: ${e.message}`);
+                process.exit(1);
+            }
+            if (!Array.isArray(fromFile)) {
+                console.error(`❌ ${options.fromFile} must hold one pubkey per line or a JSON array of pubkeys.`);
+                process.exit(1);
+            }
+            requested.push(...fromFile.map(pk => String(pk).trim()).filter(Boolean));
+        }
+
+        const pubkeys = Array.from(new Set(requested));
+        const invalid = pubkeys.filter(pk => { try { new PublicKey(pk); return false; } catch { return true; } });
+        if (invalid.length > 0) {
+            console.error(`❌ Invalid pubkeys: ${invalid.join(', ')}`);
+            process.exit(1);
+        }
+        if (pubkeys.length === 0) {
+            console.error('❌ No accounts given. Pass pubkeys or --from-file.');
+            process.exit(1);
+        }
+
+        const connection = new Connection(RPC_URL, 'confirmed');
+        const [operator] = getOperators(options);
+        const coSigners = loadMultisigSigners();
+        if (!options.dryRun) await unlockOperators([operator, ...coSigners], options);
+        await initDbForOperator(operator.publicKey.toBase58());
+
+        const whitelist = await getMergedWhitelist();
+        const reclaimer = new Reclaimer(connection, operator, { dryRun: options.dryRun, whitelist, coSigners, destination: getReclaimDestination(operator.publicKey) });
+
+        let result;
+        try {
+            result = await reclaimer.reclaimTargeted(pubkeys, { forceUntracked: options.forceUntracked });
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            if (e instanceof UntrackedAccountsError) console.error('💡 Run a sweep to track them, or pass --force-untracked.');
+            process.exit(1);
+        }
+
+        const preview = reclaimer.getDryRunReport();
+        if (preview) {
+            printDryRunReport(preview);
+            if (options.dryRunOutput) {
+                saveDryRunReports(options.dryRunOutput, [preview]);
+                console.log(`📝 Dry-run preview written to ${options.dryRunOutput}`);
+            }
+        } else {
+            console.log(`💰 Reclaimed ${result.success} accounts, Total: ${result.sol.toFixed(4)} SOL (Failed: ${result.failed}, Not reclaimable: ${result.skipped})`);
+        }
+    });
+
+/**
+ * PLAN / SIGN-PLAN / EXECUTE (Cold Signing Mode)
+ * The close authority key never touches the online machine.
+ */
+program.command('plan')
+    .description('Discover reclaimable accounts and write an unsigned reclaim plan (no key needed)')
+    .requiredOption('--operator <pubkey>', 'Operator (close authority) public key')
+    .requiredOption('--nonce-accounts <pubkeys>', 'Comma-separated durable nonce accounts (authority = operator), one per transaction')
+    .option('-o, --output <file>', 'Plan output file', 'reclaim_plan.json')
+    .action(async (options) => {
+        const { createReclaimPlan, savePlan } = require('./lib/plan');
+        const connection = new Connection(RPC_URL, 'confirmed');
+        const operator = new PublicKey(options.operator);
+        const nonceAccounts = options.nonceAccounts.split(',').map((n: string) => new PublicKey(n.trim()));
+
+        await initDbForOperator(operator.toBase58());
+        const scanner = new Discoverer(connection, operator);
+        await scanner.scan({ waitForSync: true, forceVerify: true });
+
+        const whitelist = new Set(await getMergedWhitelist());
+        const candidates = (await getReclaimableAccounts(operator.toBase58())).filter(a => !whitelist.has(a.pubkey));
+
+        const plan = await createReclaimPlan(connection, operator, candidates, nonceAccounts, getReclaimDestination(operator));
+        savePlan(options.output, plan);
+
+        const total = plan.accounts.reduce((sum: number, a: any) => sum + a.lamports, 0);
+        console.log(`\n📝 Plan written to ${options.output}`);
+        console.log(`   Accounts: ${plan.accounts.length} | Transactions: ${plan.transactions.length} | Expected: ${(total / LAMPORTS_PER_SOL).toFixed(4)} SOL`);
+        if (plan.destination) console.log(`   Destination: ${plan.destination}`);
+        console.log(`   Hash: ${plan.hash}`);
+        console.log(`💡 Copy it to the signing machine and run: sign-plan ${options.output} --wallet <keypair>`);
+    });
+
+program.command('sign-plan')
+    .description('Sign a reclaim plan offline (verifies hash and instructions, no network access)')
+    .argument('<file>', 'Unsigned plan file')
+    .requiredOption('-w, --wallet <path>', 'Operator keypair file (or env:VAR)')
+    .option('-o, --output <file>', 'Signed plan output file')
+    .option('--destination <address>', 'Expected close destination (Default: reclaimDestinations / RECLAIM_DESTINATION on this machine, else the operator)')
+    .option('--passphrase-file <path>', 'File holding the keystore passphrase')
+    .action(async (file, options) => {
+        const { loadPlan, savePlan, signReclaimPlan } = require('./lib/plan');
+        const operator = loadSigner(options.wallet);
+        await unlockOperators([operator], options);
+        const output = options.output || file.replace(/\.json$/, '') + '.signed.json';
+
+        try {
+            // Never trust the destination in the plan file: its hash can be recomputed by whoever edits it
+            const destination = options.destination ? new PublicKey(options.destination) : getReclaimDestination(operator.publicKey);
+            console.log(`🔐 Expected close destination: ${destination.toBase58()}`);
+            const signed = await signReclaimPlan(loadPlan(file), operator, destination);
+            savePlan(output, signed);
+            console.log(`✅ Signed ${signed.transactions.length} transactions (hash ${signed.hash.slice(0, 12)}...) -> ${output}`);
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+    });
+
+program.command('execute')
+    .description('Re-verify and submit a signed reclaim plan')
+    .requiredOption('--plan <file>', 'Signed plan file')
+    .action(async (options) => {
+        const { loadPlan, executeReclaimPlan } = require('./lib/plan');
+        const connection = new Connection(RPC_URL, 'confirmed');
+        const plan = loadPlan(options.plan);
+
+        await initDbForOperator(plan.operator);
+        try {
+            await finalizePendingReclaims(connection, plan.operator);
+            const result = await executeReclaimPlan(connection, plan);
+            console.log(`\n💰 Reclaimed ${result.success} accounts, Total: ${result.sol.toFixed(4)} SOL`);
+            console.log(`   Failed: ${result.failed} | Skipped (stale): ${result.skipped} | Pending confirmation: ${result.pending}`);
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+    });
+
 /**
  * 3. STATS (Analytics Mode)
  */
 program.command('stats')
     .description('Show detailed performance report card')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Show report for all operators in operators.json', false)
+    .option('--finalized-only', 'Count only reclaims whose transaction is finalized', false)
     .action(async (options) => {
         const { generateReport } = require('./lib/report');
         const operators = getOperators(options);
 
         for (const operator of operators) {
             await initDbForOperator(operator.publicKey.toBase58());
-            await generateReport(operator.publicKey.toBase58());
+            await generateReport(operator.publicKey.toBase58(), { finalizedOnly: options.finalizedOnly });
         }
     });
 /**
@@ -242,7 +570,7 @@ program.command('stats')
 program.command('activity')
     .description('Show recent reclamation activity')
     .option('-n, --number <count>', 'Number of entries to show', '20')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Show activity for all operators in operators.json', false)
     .action(async (options) => {
         const { getRecentActivity } = require('./lib/database');
@@ -263,8 +591,13 @@ program.command('activity')
 
             activity.forEach((row: any) => {
                 const date = new Date(row.timestamp).toLocaleString();
-                const rent = (row.rent_paid / 1e9).toFixed(5);
-                console.log(`[${date}] 💰 Reclaimed ${rent} SOL from ${row.pubkey.slice(0, 8)}...`);
+                const amount = (row.lamports / 1e9).toFixed(5);
+                if (row.kind === 'treasury') {
+                    console.log(`[${date}] 🏦 Swept ${amount} SOL to treasury ${row.pubkey.slice(0, 8)}... (${row.signature.slice(0, 8)}...)`);
+                    return;
+                }
+                const pending = row.status === 'reclaim_pending' ? ' (awaiting finalization)' : '';
+                console.log(`[${date}] 💰 Reclaimed ${amount} SOL from ${row.pubkey.slice(0, 8)}...${pending}`);
             });
         }
     });
@@ -275,54 +608,65 @@ program.command('activity')
 program.command('export')
     .description('Export full audit log to CSV')
     .option('-o, --output <file>', 'Output filename', 'audit_export.csv')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .option('-a, --all', 'Export logs for all operators in operators.json', false)
     .action(async (options) => {
-        const { getAllAccounts } = require('./lib/database');
+        const { getAllAccounts, getTreasuryTransfers } = require('./lib/database');
         const operators = getOperators(options);
         let totalExported = 0;
 
         for (const operator of operators) {
             await initDbForOperator(operator.publicKey.toBase58());
             const prefix = operator.publicKey.toBase58().slice(0, 8);
-            const outputFile = operators.length > 1
-                ? options.output.replace('.csv', `_${prefix}.csv`)
-                : options.output;
+            const outputFile = operators.length > 1 ? withFileSuffix(options.output, `_${prefix}`) : options.output;
 
             console.log(`\n📦 Exporting audit log for ${prefix}...`);
             const accounts = await getAllAccounts(operator.publicKey.toBase58());
 
             if (accounts.length === 0) {
                 console.log("⚠️ No accounts found to export.");
-                continue;
-            }
-
-            const keys = [
-                'pubkey', 'userWallet', 'mint', 'status',
-                'initialTimestamp', 'sponsorshipSource', 'memo', 'rentPaid',
-                'reclaimedAt', 'reclaimSignature'
-            ];
-
-            const header = keys.join(',') + '\n';
-            const rows = accounts.map((a: any) => {
-                return keys.map(k => {
-                    let val = a[k];
-                    if (k === 'initialTimestamp' || k === 'reclaimedAt') {
-                        if (!val) return '';
-                        if (typeof val === 'number' && val < 100000000000) {
-                            val = val * 1000;
+            } else {
+                const keys = [
+                    'pubkey', 'userWallet', 'mint', 'status', 'statusReason', 'reclaimDestination',
+                    'initialTimestamp', 'sponsorshipSource', 'memo', 'rentPaid',
+                    'reclaimedAt', 'reclaimSignature', 'discoveredVia'
+                ];
+
+                const header = keys.join(',') + '\n';
+                const rows = accounts.map((a: any) => {
+                    return keys.map(k => {
+                        let val = a[k];
+                        if (k === 'initialTimestamp' || k === 'reclaimedAt') {
+                            if (!val) return '';
+                            if (typeof val === 'number' && val < 100000000000) {
+                                val = val * 1000;
+                            }
+                            return new Date(val).toISOString();
                         }
-                        return new Date(val).toISOString();
-                    }
-                    if (k === 'rentPaid') return (val / 1e9).toFixed(9);
-                    if (val === null || val === undefined) return '';
-                    return `"${String(val).replace(/"/g, '""')}"`;
-                }).join(',');
-            }).join('\n');
+                        if (k === 'rentPaid') return (val / 1e9).toFixed(9);
+                        if (val === null || val === undefined) return '';
+                        return `"${String(val).replace(/"/g, '""')}"`;
+                    }).join(',');
+                }).join('\n');
+
+                fs.writeFileSync(outputFile, header + rows);
+                console.log(`✅ Exported ${accounts.length} records to ${outputFile}`);
+                totalExported += accounts.length;
+            }
 
-            fs.writeFileSync(outputFile, header + rows);
-            console.log(`✅ Exported ${accounts.length} records to ${outputFile}`);
-            totalExported += accounts.length;
+            const transfers = await getTreasuryTransfers(operator.publicKey.toBase58());
+            if (transfers.length > 0) {
+                const treasuryFile = withFileSuffix(outputFile, '_treasury');
+                const treasuryRows = transfers.map((t: any) => [
+                    new Date(t.createdAt).toISOString(),
+                    t.signature,
+                    t.destination,
+                    (t.lamports / 1e9).toFixed(9),
+                    t.reserveLamports !== null ? (t.reserveLamports / 1e9).toFixed(9) : ''
+                ].join(',')).join('\n');
+                fs.writeFileSync(treasuryFile, 'createdAt,signature,destination,amountSol,reserveSol\n' + treasuryRows);
+                console.log(`✅ Exported ${transfers.length} treasury transfers to ${treasuryFile}`);
+            }
         }
 
         if (operators.length > 1) {
@@ -337,7 +681,7 @@ const config = program.command('config').description('Manage configuration and s
 
 config.command('whitelist')
     .description('Manage address whitelist')
-    .option('-w, --wallet <path>', 'Path to operator keypair file (required for whitelist operations)')
+    .option('-w, --wallet <path>', 'Operator keypair file or env:VAR (required for whitelist operations)')
     .argument('<action>', 'add, remove, or list')
     .argument('[address]', 'Solana address')
     .argument('[note]', 'Optional note for the address')
@@ -347,7 +691,7 @@ config.command('whitelist')
             console.error('❌ Whitelist requires --wallet to specify operator DB.');
             process.exit(1);
         }
-        const operator = loadKeypair(options.wallet);
+        const operator = loadSigner(options.wallet);
         await initDbForOperator(operator.publicKey.toBase58());
 
         if (action === 'add') {
@@ -368,11 +712,11 @@ config.command('whitelist')
 config.command('webhook')
     .description('Setup Helius webhooks')
     .argument('<url>', 'Your public webhook endpoint URL')
-    .option('-w, --wallet <path>', 'Path to operator keypair file', OPERATOR_KEYPAIR_PATH)
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
     .action(async (url, options) => {
         const { HeliusClient } = require('./lib/helius');
         const helius = new HeliusClient(process.env.HELIUS_API_KEY, RPC_URL);
-        const operator = loadKeypair(options.wallet);
+        const operator = loadSigner(options.wallet);
 
         console.log(`🛰️ Registering Helius Webhook...`);
         try {
@@ -383,4 +727,187 @@ config.command('webhook')
         }
     });
 
+/**
+ * 6. KEYS (Encrypted Keystores)
+ */
+const keys = program.command('keys').description('Manage passphrase-encrypted operator keystores');
+
+/**
+ * Ask for a new passphrase twice, unless it comes from a file
+ */
+async function readNewPassphrase(passphraseFile?: string): Promise<string> {
+    const { promptPassphrase } = require('./lib/keystore');
+    if (passphraseFile) {
+        return fs.readFileSync(passphraseFile, 'utf-8').replace(/\r?\n$/, '');
+    }
+    if (!process.stdin.isTTY) {
+        console.error('❌ No terminal to prompt for a new passphrase. Use --new-passphrase-file.');
+        process.exit(1);
+    }
+    const first = await promptPassphrase('🔑 New passphrase: ');
+    const second = await promptPassphrase('🔑 Repeat passphrase: ');
+    if (first !== second) {
+        console.error('❌ Passphrases do not match.');
+        process.exit(1);
+    }
+    return first;
+}
+
+/**
+ * Accept either a keystore path or a pubkey stored in KEYSTORE_DIR
+ */
+function resolveKeystorePath(keystore: string): string {
+    const { keystorePathFor } = require('./lib/keystore');
+    return fs.existsSync(keystore) ? keystore : keystorePathFor(keystore);
+}
+
+keys.command('import')
+    .description('Encrypt a plaintext keypair into a keystore')
+    .argument('<source>', 'Keypair file, or env:VAR holding a base58 secret key')
+    .option('-o, --output <path>', 'Keystore file (Default: KEYSTORE_DIR/<pubkey>.json)')
+    .option('--new-passphrase-file <path>', 'File holding the passphrase to encrypt with')
+    .action(async (source, options) => {
+        const { encryptKeypair, writeKeystore, keystorePathFor } = require('./lib/keystore');
+        const { Keypair } = require('@solana/web3.js');
+        const bs58 = require('bs58').default;
+
+        let keypair;
+        try {
+            if (source.startsWith('env:')) {
+                const secret = process.env[source.slice(4)];
+                if (!secret) throw new Error(`Env var ${source.slice(4)} is not set`);
+                keypair = Keypair.fromSecretKey(bs58.decode(secret.trim()));
+            } else {
+                const secretKey = JSON.parse(fs.readFileSync(resolveKeypairPath(source), 'utf-8'));
+                keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+            }
+        } catch (e: any) {
+            console.error(`❌ Failed to read keypair from ${source}: ${e.message}`);
+            process.exit(1);
+        }
+
+        const output = options.output || keystorePathFor(keypair.publicKey.toBase58());
+        if (fs.existsSync(output)) {
+            console.error(`❌ ${output} already exists. Use 'keys rotate' to change its passphrase.`);
+            process.exit(1);
+        }
+
+        try {
+            const passphrase = await readNewPassphrase(options.newPassphraseFile);
+            writeKeystore(output, await encryptKeypair(keypair, passphrase));
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+
+        console.log(`✅ Keystore for ${keypair.publicKey.toBase58()} written to ${output}`);
+        if (!source.startsWith('env:')) {
+            console.log(`⚠️ Delete the plaintext keypair once you have a backup: ${source}`);
+        }
+    });
+
+keys.command('list')
+    .description('List keystores')
+    .option('-d, --dir <path>', 'Keystore directory', process.env.KEYSTORE_DIR || './keystores')
+    .action(async (options) => {
+        const { listKeystores } = require('./lib/keystore');
+        const found = listKeystores(options.dir);
+        if (found.length === 0) {
+            console.log(`No keystores in ${options.dir}.`);
+            return;
+        }
+        console.log(`🔐 Keystores in ${options.dir}:`);
+        found.forEach((k: any) => console.log(` - ${k.keystore.pubkey}  (created ${k.keystore.createdAt.split('T')[0]})  ${k.path}`));
+    });
+
+keys.command('show')
+    .description('Show the pubkey of a keystore (no passphrase needed)')
+    .argument('<keystore>', 'Keystore path or pubkey')
+    .action(async (keystore) => {
+        const { readKeystore } = require('./lib/keystore');
+        try {
+            console.log(readKeystore(resolveKeystorePath(keystore)).pubkey);
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+    });
+
+keys.command('rotate')
+    .description('Change the passphrase of a keystore')
+    .argument('<keystore>', 'Keystore path or pubkey')
+    .option('--passphrase-file <path>', 'File holding the current passphrase')
+    .option('--new-passphrase-file <path>', 'File holding the new passphrase')
+    .action(async (keystore, options) => {
+        const { readKeystore, writeKeystore, resolvePassphrase, rotateKeystorePassphrase } = require('./lib/keystore');
+        const keystorePath = resolveKeystorePath(keystore);
+
+        try {
+            const current = readKeystore(keystorePath);
+            const passphrase = await resolvePassphrase(`${current.pubkey.slice(0, 8)}... (current)`, options);
+            const next = await readNewPassphrase(options.newPassphraseFile);
+            writeKeystore(keystorePath, await rotateKeystorePassphrase(current, passphrase, next));
+            console.log(`✅ Passphrase rotated for ${current.pubkey}`);
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+    });
+
+/**
+ * 7. SAFETY (Circuit Breaker)
+ */
+const safety = program.command('safety').description('Inspect and reset the persistent circuit breaker');
+
+safety.command('status')
+    .description('Show whether reclaims are blocked, and recent trips')
+    .option('-n, --number <count>', 'Number of trips to show', '10')
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
+    .option('-a, --all', 'Show status for all operators in operators.json', false)
+    .action(async (options) => {
+        const { getActiveSafetyTrip, getSafetyTrips } = require('./lib/database');
+        const operators = getOperators(options);
+
+        for (const operator of operators) {
+            const operatorKey = operator.publicKey.toBase58();
+            await initDbForOperator(operatorKey);
+            const active = await getActiveSafetyTrip(operatorKey);
+
+            console.log(`\n🛡️ Circuit Breaker for ${operatorKey.slice(0, 8)}...`);
+            console.log(active
+                ? `🚨 BLOCKED since ${new Date(active.trippedAt).toLocaleString()} (${active.rule}): ${active.detail}`
+                : `✅ Not tripped. Reclaims allowed.`);
+
+            const trips = await getSafetyTrips(operatorKey, parseInt(options.number));
+            trips.forEach((t: any) => {
+                const state = t.resetAt ? `reset ${new Date(t.resetAt).toLocaleString()}${t.resetNote ? ` (${t.resetNote})` : ''}` : 'ACTIVE';
+                console.log(`[${new Date(t.trippedAt).toLocaleString()}] ${t.rule} | ${t.detail} | ${state}`);
+            });
+        }
+    });
+
+safety.command('reset')
+    .description('Clear circuit breaker trips and allow reclaims again')
+    .option('-w, --wallet <path>', 'Operator keypair file (or env:VAR)', OPERATOR_KEYPAIR_PATH)
+    .option('-a, --all', 'Reset all operators in operators.json', false)
+    .option('--note <text>', 'Why the trip was cleared (kept with the trip)', '')
+    .action(async (options) => {
+        const { getActiveSafetyTrip, resetSafetyTrips } = require('./lib/database');
+        const operators = getOperators(options);
+
+        for (const operator of operators) {
+            const operatorKey = operator.publicKey.toBase58();
+            await initDbForOperator(operatorKey);
+            const active = await getActiveSafetyTrip(operatorKey);
+
+            if (!active) {
+                console.log(`✅ ${operatorKey.slice(0, 8)}... is not tripped.`);
+                continue;
+            }
+
+            const count = await resetSafetyTrips(operatorKey, options.note);
+            console.log(`✅ Reset ${count} trip(s) for ${operatorKey.slice(0, 8)}... Reclaims resume on the next cycle.`);
+        }
+    });
+
 program.parse();
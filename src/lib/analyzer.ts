@@ -1,10 +1,15 @@
-import { Connection, PublicKey, GetProgramAccountsFilter } from '@solana/web3.js';
-import { AccountLayout, ACCOUNT_SIZE, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, PublicKey, GetProgramAccountsFilter, AccountInfo } from '@solana/web3.js';
+import { AccountLayout, AccountState, RawAccount, ACCOUNT_SIZE, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import { DiscoveredAccount } from './discoverer';
-import { DiscoveryClient } from './rpc';
+import { DiscoveryClient, ProgramAccount } from './rpc';
+import { fetchMultisigs, isMultisigMember, MultisigInfo } from './multisig';
+import { isTokenAccountData, parseTokenAccountExtensions, getExtensionCloseBlocker, describeExtensions } from './token-extensions';
 
 const TOKEN_PROGRAM_STR = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
 const TOKEN_2022_PROGRAM_STR = 'TokenzQdBNbAtYpYbt9UEHJR9YWYvNf2t8S77tB39L';
+// Token account layout: mint(32) owner(32) amount(8) delegate(4+32) state(1) isNative(4+8) delegatedAmount(8) closeAuthority(4+32).
+// The memcmp targets the pubkey after the 4-byte option tag.
+const CLOSE_AUTHORITY_OFFSET = 133;
 
 export interface ReclaimableAccount {
     pubkey: string;
@@ -13,10 +18,44 @@ export interface ReclaimableAccount {
     type: 'token' | 'token-2022' | 'system';
     lamports: number;
     canReclaim: boolean;
-    status?: 'active' | 'reclaimable' | 'closed' | 'locked';
+    status?: 'active' | 'reclaimable' | 'closed' | 'locked' | AccountSafetyStatus;
     reason?: string;
     sponsorshipSource?: string;
     memo?: string;
+    // Set when the close authority is an SPL Token multisig the operator belongs to
+    multisig?: { address: string; m: number; signers: string[] };
+    // Token-2022 extensions relevant to closing (e.g. 'immutable_owner', 'transfer_fee(withheld=10)')
+    extensions?: string[];
+    // Withheld transfer fees that must be harvested to the mint before close
+    withheldFees?: boolean;
+}
+
+export type AccountSafetyStatus = 'frozen' | 'native' | 'uninitialized';
+
+/**
+ * Account type of a stored record (a plain string in the database); unknown values are treated as classic token accounts
+ */
+export function toAccountType(type: string | undefined): ReclaimableAccount['type'] {
+    return type === 'token-2022' || type === 'system' ? type : 'token';
+}
+
+/**
+ * Token account states that must never be closed, regardless of balance or close authority.
+ * Shared with the Reclaimer, which re-checks right before sending.
+ */
+export function classifyAccountSafety(data: RawAccount, lamports: number): { status: AccountSafetyStatus; reason: string } | null {
+    if (data.state === AccountState.Uninitialized) {
+        return { status: 'uninitialized', reason: 'account_uninitialized' };
+    }
+    // Wrapped SOL: isNative holds the rent-exempt reserve. Anything above it is the user's SOL,
+    // which a close would send to the operator.
+    if (data.isNativeOption === 1 && BigInt(lamports) > data.isNative) {
+        return { status: 'native', reason: `native_balance_above_rent: ${BigInt(lamports) - data.isNative} lamports wrapped` };
+    }
+    if (data.state === AccountState.Frozen) {
+        return { status: 'frozen', reason: 'account_frozen' };
+    }
+    return null;
 }
 
 /**
@@ -68,6 +107,7 @@ export class Analyzer {
 
             try {
                 const infos = await this.connection.getMultipleAccountsInfo(pubkeys);
+                const multisigs = await this.fetchCloseAuthorityMultisigs(infos);
 
                 for (let j = 0; j < (infos?.length || 0); j++) {
                     const info = infos[j];
@@ -84,14 +124,39 @@ export class Analyzer {
                     const ownerStr = info.owner.toBase58();
                     const isToken = ownerStr === TOKEN_PROGRAM_STR || ownerStr === TOKEN_2022_PROGRAM_STR;
 
-                    if (isToken && info.data.length >= ACCOUNT_SIZE) {
+                    if (isToken && isTokenAccountData(info.data)) {
                         const data = AccountLayout.decode(Uint8Array.from(info.data.slice(0, ACCOUNT_SIZE)));
+                        const extensions = parseTokenAccountExtensions(pubkeys[j], info);
+                        const extensionBlocker = getExtensionCloseBlocker(extensions);
+                        const extensionLabels = describeExtensions(extensions);
+
+                        const safety = classifyAccountSafety(data, info.lamports);
+                        if (safety) {
+                            reclaimable.push({
+                                pubkey: pubkeyStr,
+                                userWallet: data.owner.toBase58(),
+                                mint: new PublicKey(data.mint).toBase58(),
+                                type: ownerStr === TOKEN_2022_PROGRAM_STR ? 'token-2022' : 'token',
+                                lamports: info.lamports,
+                                canReclaim: false,
+                                status: safety.status,
+                                reason: safety.reason,
+                                sponsorshipSource: originalAcc?.sponsorshipSource,
+                                memo: originalAcc?.memo,
+                                extensions: extensionLabels.length > 0 ? extensionLabels : undefined
+                            });
+                            if (!this.silent) console.log(`  [SKIP] ${pubkeyStr.slice(0, 8)}... | Reason: ${safety.status.toUpperCase()} | ${safety.reason}`);
+                            continue;
+                        }
 
                         const isZeroBalance = data.amount === 0n;
                         const closeAuthority = data.closeAuthorityOption === 1
                             ? new PublicKey(data.closeAuthority).toBase58()
                             : '';
-                        const canClose = closeAuthority === this.operatorAddress.toBase58();
+                        const multisig = multisigs.get(closeAuthority);
+                        const viaMultisig = !!multisig && isMultisigMember(multisig, this.operatorAddress);
+                        const hasAuthority = closeAuthority === this.operatorAddress.toBase58() || viaMultisig;
+                        const canClose = hasAuthority && !extensionBlocker;
 
                         if (isZeroBalance) {
                             reclaimable.push({
@@ -101,13 +166,26 @@ export class Analyzer {
                                 type: ownerStr === TOKEN_2022_PROGRAM_STR ? 'token-2022' : 'token',
                                 lamports: info.lamports,
                                 canReclaim: canClose,
-                                reason: canClose ? undefined : 'authority_mismatch',
+                                status: canClose ? 'reclaimable' : 'locked',
+                                reason: !hasAuthority ? 'authority_mismatch' : extensionBlocker || undefined,
                                 sponsorshipSource: originalAcc?.sponsorshipSource,
-                                memo: originalAcc?.memo
+                                memo: originalAcc?.memo,
+                                multisig: viaMultisig ? {
+                                    address: closeAuthority,
+                                    m: multisig!.m,
+                                    signers: multisig!.signers.map(k => k.toBase58())
+                                } : undefined,
+                                extensions: extensionLabels.length > 0 ? extensionLabels : undefined,
+                                withheldFees: (extensions?.withheldAmount ?? 0n) > 0n
                             });
                             if (!this.silent) {
-                                if (canClose) {
-                                    console.log(`  [RECLAIMABLE] ${pubkeyStr.slice(0, 8)}... | balance=0, closeAuth=operator | ~${(info.lamports / 1e9).toFixed(4)} SOL`);
+                                if (hasAuthority && extensionBlocker) {
+                                    console.log(`  [SKIP] ${pubkeyStr.slice(0, 8)}... | Reason: ${extensionBlocker.toUpperCase()} | ${extensionLabels.join(', ')}`);
+                                } else if (viaMultisig) {
+                                    console.log(`  [RECLAIMABLE] ${pubkeyStr.slice(0, 8)}... | balance=0, closeAuth=multisig ${multisig!.m}/${multisig!.signers.length} incl. operator | ~${(info.lamports / 1e9).toFixed(4)} SOL`);
+                                } else if (canClose) {
+                                    const extras = extensionLabels.length > 0 ? ` | ${extensionLabels.join(', ')}` : '';
+                                    console.log(`  [RECLAIMABLE] ${pubkeyStr.slice(0, 8)}... | balance=0, closeAuth=operator | ~${(info.lamports / 1e9).toFixed(4)} SOL${extras}`);
                                 } else {
                                     console.log(`  [SKIP] ${pubkeyStr.slice(0, 8)}... | Reason: AUTHORITY_MISMATCH | closeAuth != operator`);
                                 }
@@ -121,7 +199,8 @@ export class Analyzer {
                                 type: ownerStr === TOKEN_2022_PROGRAM_STR ? 'token-2022' : 'token',
                                 lamports: info.lamports,
                                 canReclaim: false,
-                                reason: 'balance_nonzero'
+                                reason: 'balance_nonzero',
+                                extensions: extensionLabels.length > 0 ? extensionLabels : undefined
                             });
                             if (!this.silent) console.log(`  [SKIP] ${pubkeyStr.slice(0, 8)}... | Reason: NON_ZERO_BALANCE | Account still holds tokens`);
                         }
@@ -145,4 +224,81 @@ export class Analyzer {
 
         return reclaimable;
     }
+
+    /**
+     * Find every token account whose close authority is the operator, straight from the Token and Token-2022 programs,
+     * without walking the fee-payer history. Accounts closable only through a multisig are not found this way.
+     */
+    async findReclaimableAccountsDirect(): Promise<ReclaimableAccount[]> {
+        const discovered: DiscoveredAccount[] = [];
+
+        for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+            const accounts = await this.fetchByCloseAuthority(programId);
+            if (!this.silent) console.log(`[KoraScan] ${accounts.length} ${programId.equals(TOKEN_PROGRAM_ID) ? 'Token' : 'Token-2022'} accounts with operator close authority.`);
+
+            for (const { pubkey, lamports, data } of accounts) {
+                if (!isTokenAccountData(data)) continue;
+                const decoded = AccountLayout.decode(Uint8Array.from(data.slice(0, ACCOUNT_SIZE)));
+                discovered.push({
+                    pubkey,
+                    userWallet: decoded.owner.toBase58(),
+                    mint: decoded.mint.toBase58(),
+                    type: programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'token',
+                    rentPaid: lamports,
+                    signature: 'UNKNOWN',
+                    slot: 0,
+                    timestamp: 0,
+                    sponsorshipSource: 'UNKNOWN',
+                    memo: ''
+                });
+            }
+        }
+
+        // Re-read and classify like any other discovered account (balance, state, extensions)
+        return this.analyzeAccounts(discovered);
+    }
+
+    /**
+     * Helius getProgramAccountsV2 (paginated) when available, standard getProgramAccounts otherwise
+     */
+    private async fetchByCloseAuthority(programId: PublicKey): Promise<ProgramAccount[]> {
+        const filters: GetProgramAccountsFilter[] = [
+            { memcmp: { offset: CLOSE_AUTHORITY_OFFSET, bytes: this.operatorAddress.toBase58() } }
+        ];
+        // Token-2022 accounts grow with their extensions
+        if (programId.equals(TOKEN_PROGRAM_ID)) filters.push({ dataSize: ACCOUNT_SIZE });
+
+        if (this.heliusClient?.heliusEnabled) {
+            try {
+                return await this.heliusClient.getProgramAccountsV2(programId.toBase58(), { filters });
+            } catch (e: any) {
+                console.warn(`[KoraScan] ${e.message}. Falling back to getProgramAccounts...`);
+            }
+        }
+
+        const accounts = await this.connection.getProgramAccounts(programId, { filters });
+        return accounts.map(({ pubkey, account }) => ({ pubkey: pubkey.toBase58(), lamports: account.lamports, data: account.data }));
+    }
+
+    /**
+     * Close authorities other than the operator that turn out to be SPL Token multisigs
+     */
+    private async fetchCloseAuthorityMultisigs(infos: (AccountInfo<Buffer> | null)[]): Promise<Map<string, MultisigInfo>> {
+        const operator = this.operatorAddress.toBase58();
+        const authorities = new Set<string>();
+
+        for (const info of infos) {
+            if (!info || !isTokenAccountData(info.data)) continue;
+            const ownerStr = info.owner.toBase58();
+            if (ownerStr !== TOKEN_PROGRAM_STR && ownerStr !== TOKEN_2022_PROGRAM_STR) continue;
+
+            const data = AccountLayout.decode(Uint8Array.from(info.data.slice(0, ACCOUNT_SIZE)));
+            if (data.closeAuthorityOption !== 1 || data.amount !== 0n) continue;
+            const closeAuthority = new PublicKey(data.closeAuthority).toBase58();
+            if (closeAuthority !== operator) authorities.add(closeAuthority);
+        }
+
+        if (authorities.size === 0) return new Map();
+        return fetchMultisigs(this.connection, Array.from(authorities).map(a => new PublicKey(a)));
+    }
 }
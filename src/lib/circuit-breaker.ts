@@ -0,0 +1,121 @@
+/**
+ * Persistent Circuit Breaker
+ *
+ * Rules (each DISABLED unless configured):
+ * - RECLAIM_CIRCUIT_BREAKER_SOL: value of a single batch
+ * - RECLAIM_HOURLY_CAP_SOL / RECLAIM_DAILY_CAP_SOL: rolling windows over amounts already reclaimed (from the database)
+ * - RECLAIM_ANOMALY_RENT_MULTIPLE: one account holding more than N times its rent-exempt minimum
+ *
+ * A trip is stored in the operator database and blocks every reclaim for that operator,
+ * across batches and restarts, until `safety reset` is run. In dry-run, trips are reported but not stored.
+ */
+import { recordSafetyTrip, getActiveSafetyTrip, getReclaimedLamportsSince, SafetyTrip } from './database';
+import { sendSafetyAlert } from './notifier';
+
+const RECLAIM_CIRCUIT_BREAKER_SOL = process.env.RECLAIM_CIRCUIT_BREAKER_SOL ? parseFloat(process.env.RECLAIM_CIRCUIT_BREAKER_SOL) : 0;
+const RECLAIM_HOURLY_CAP_SOL = process.env.RECLAIM_HOURLY_CAP_SOL ? parseFloat(process.env.RECLAIM_HOURLY_CAP_SOL) : 0;
+const RECLAIM_DAILY_CAP_SOL = process.env.RECLAIM_DAILY_CAP_SOL ? parseFloat(process.env.RECLAIM_DAILY_CAP_SOL) : 0;
+const RECLAIM_ANOMALY_RENT_MULTIPLE = process.env.RECLAIM_ANOMALY_RENT_MULTIPLE ? parseFloat(process.env.RECLAIM_ANOMALY_RENT_MULTIPLE) : 0;
+
+// Rent-exempt minimum: (128 bytes of account overhead + data) * 3480 lamports/byte-year * 2 years
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+const RENT_EXEMPT_LAMPORTS_PER_BYTE = 6960;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BreakerAccount {
+    pubkey: string;
+    lamports: number;
+    dataLength: number;
+}
+
+export function rentExemptMinimum(dataLength: number): number {
+    return (ACCOUNT_STORAGE_OVERHEAD + dataLength) * RENT_EXEMPT_LAMPORTS_PER_BYTE;
+}
+
+export class CircuitBreaker {
+    private operator: string;
+    private dryRun: boolean;
+
+    constructor(operator: string, options: { dryRun?: boolean } = {}) {
+        this.operator = operator;
+        this.dryRun = options.dryRun || false;
+    }
+
+    static logConfig(): void {
+        const rules: string[] = [];
+        if (RECLAIM_CIRCUIT_BREAKER_SOL > 0) rules.push(`batch > ${RECLAIM_CIRCUIT_BREAKER_SOL} SOL`);
+        if (RECLAIM_HOURLY_CAP_SOL > 0) rules.push(`hourly > ${RECLAIM_HOURLY_CAP_SOL} SOL`);
+        if (RECLAIM_DAILY_CAP_SOL > 0) rules.push(`daily > ${RECLAIM_DAILY_CAP_SOL} SOL`);
+        if (RECLAIM_ANOMALY_RENT_MULTIPLE > 0) rules.push(`account > ${RECLAIM_ANOMALY_RENT_MULTIPLE}x rent-exempt`);
+
+        if (rules.length > 0) {
+            console.log(`[Safety] 🛡️ Circuit Breaker Active: ${rules.join(', ')}`);
+        } else {
+            console.log(`[Safety] ⚠️ Circuit Breaker DISABLED (RECLAIM_CIRCUIT_BREAKER_SOL / RECLAIM_HOURLY_CAP_SOL / RECLAIM_DAILY_CAP_SOL / RECLAIM_ANOMALY_RENT_MULTIPLE not set)`);
+        }
+    }
+
+    async getActiveTrip(): Promise<SafetyTrip | null> {
+        return getActiveSafetyTrip(this.operator);
+    }
+
+    /**
+     * Check a batch about to be sent. Trips (and persists) on the first broken rule.
+     * Returns the blocking trip, or null when the batch may proceed.
+     */
+    async check(accounts: BreakerAccount[]): Promise<SafetyTrip | null> {
+        const active = await this.getActiveTrip();
+        if (active) return active;
+
+        for (const account of accounts) {
+            const rent = rentExemptMinimum(account.dataLength);
+            if (RECLAIM_ANOMALY_RENT_MULTIPLE > 0 && account.lamports > rent * RECLAIM_ANOMALY_RENT_MULTIPLE) {
+                return this.trip('anomaly',
+                    `${account.pubkey} holds ${(account.lamports / 1e9).toFixed(6)} SOL, ${(account.lamports / rent).toFixed(1)}x its rent-exempt minimum (limit ${RECLAIM_ANOMALY_RENT_MULTIPLE}x)`,
+                    account.lamports,
+                    account.pubkey);
+            }
+        }
+
+        const batchLamports = accounts.reduce((sum, a) => sum + a.lamports, 0);
+        if (RECLAIM_CIRCUIT_BREAKER_SOL > 0 && batchLamports / 1e9 > RECLAIM_CIRCUIT_BREAKER_SOL) {
+            return this.trip('batch_cap',
+                `Batch value ${(batchLamports / 1e9).toFixed(4)} SOL > Limit ${RECLAIM_CIRCUIT_BREAKER_SOL} SOL`,
+                batchLamports);
+        }
+
+        const windows: Array<[string, string, number, number]> = [
+            ['hourly_cap', 'last hour', HOUR_MS, RECLAIM_HOURLY_CAP_SOL],
+            ['daily_cap', 'last 24h', DAY_MS, RECLAIM_DAILY_CAP_SOL]
+        ];
+        for (const [rule, label, windowMs, capSol] of windows) {
+            if (capSol <= 0) continue;
+            const reclaimed = await getReclaimedLamportsSince(this.operator, Date.now() - windowMs);
+            const total = reclaimed + batchLamports;
+            if (total / 1e9 > capSol) {
+                return this.trip(rule,
+                    `${(reclaimed / 1e9).toFixed(4)} SOL reclaimed in the ${label} + ${(batchLamports / 1e9).toFixed(4)} SOL batch > Cap ${capSol} SOL`,
+                    total);
+            }
+        }
+
+        return null;
+    }
+
+    private async trip(rule: string, detail: string, lamports: number, account?: string): Promise<SafetyTrip> {
+        if (this.dryRun) {
+            console.warn(`[Safety] [DRY RUN] Circuit breaker would trip (${rule}): ${detail}`);
+            return { id: 0, operator: this.operator, rule, detail, account: account ?? null, lamports, trippedAt: Date.now(), resetAt: null, resetNote: null };
+        }
+
+        const trip = await recordSafetyTrip({ operator: this.operator, rule, detail, account, lamports });
+        console.error(`[Safety] 🚨 CIRCUIT BREAKER TRIPPED (${rule})! ${detail}`);
+        console.error(`[Safety] All reclaims for ${this.operator.slice(0, 8)}... are blocked until \`safety reset\`.`);
+
+        // Fire and forget
+        sendSafetyAlert(this.operator, rule, detail);
+        return trip;
+    }
+}
@@ -4,7 +4,7 @@
  * Per-operator database support - each operator gets their own DB file.
  * Format: korascan_<operator-prefix>.db
  */
-import { createClient, Client } from '@libsql/client';
+import { createClient, Client, Row } from '@libsql/client';
 
 const LOCAL_DB_DIR = process.env.LOCAL_DB_DIR || '.';
 
@@ -148,6 +148,93 @@ export async function initDb(): Promise<void> {
         )
     `);
 
+    // Operator-owned Address Lookup Tables (v0 reclaim transactions)
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS lookup_tables (
+            address TEXT PRIMARY KEY,
+            operator TEXT NOT NULL,
+            status TEXT DEFAULT 'active',
+            created_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+        )
+    `);
+
+    // Circuit breaker trips. An unreset trip blocks all reclaims for the operator.
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS safety_trips (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            operator TEXT NOT NULL,
+            rule TEXT NOT NULL,
+            detail TEXT,
+            account TEXT,
+            lamports INTEGER DEFAULT 0,
+            tripped_at INTEGER NOT NULL,
+            reset_at INTEGER,
+            reset_note TEXT
+        )
+    `);
+
+    // Write-ahead journal of reclaim transactions, written before send and reconciled on startup
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS reclaim_journal (
+            signature TEXT PRIMARY KEY,
+            operator TEXT NOT NULL,
+            accounts TEXT NOT NULL,
+            destination TEXT,
+            blockhash TEXT NOT NULL,
+            last_valid_block_height INTEGER NOT NULL,
+            nonce_account TEXT,
+            status TEXT DEFAULT 'pending',
+            error TEXT,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER
+        )
+    `);
+
+    // Profit sweeps from the operator hot wallet, one row per destination transfer
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS treasury_transfers (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            operator TEXT NOT NULL,
+            signature TEXT NOT NULL,
+            destination TEXT NOT NULL,
+            lamports INTEGER NOT NULL,
+            reserve_lamports INTEGER,
+            created_at INTEGER NOT NULL
+        )
+    `);
+
+    // Signature ranges of the first history scan, crawled in parallel; the cursor lets an interrupted crawl resume
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS scan_ranges (
+            operator TEXT NOT NULL,
+            range_id INTEGER NOT NULL,
+            before_signature TEXT,
+            until_signature TEXT,
+            cursor_signature TEXT,
+            cursor_slot INTEGER,
+            processed INTEGER DEFAULT 0,
+            status TEXT DEFAULT 'pending',
+            updated_at INTEGER,
+            PRIMARY KEY (operator, range_id)
+        )
+    `);
+
+    // Every SetAuthority (account owner / close authority) seen in the operator's history
+    await db.execute(`
+        CREATE TABLE IF NOT EXISTS authority_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            operator TEXT NOT NULL,
+            account TEXT NOT NULL,
+            authority_type TEXT NOT NULL,
+            previous_authority TEXT,
+            new_authority TEXT,
+            signature TEXT NOT NULL,
+            slot INTEGER NOT NULL,
+            timestamp INTEGER,
+            UNIQUE(signature, account, authority_type)
+        )
+    `);
+
     // Indexes for fast queries
     await db.execute(`CREATE INDEX IF NOT EXISTS idx_operator_status ON sponsored_accounts(operator, status)`);
     await db.execute(`CREATE INDEX IF NOT EXISTS idx_operator_wallet ON sponsored_accounts(operator, user_wallet)`);
@@ -155,6 +242,10 @@ export async function initDb(): Promise<void> {
     await db.execute(`CREATE INDEX IF NOT EXISTS idx_user_wallet ON sponsored_accounts(user_wallet)`);
     await db.execute(`CREATE INDEX IF NOT EXISTS idx_fee_operator ON operator_fee_history(operator)`);
     await db.execute(`CREATE INDEX IF NOT EXISTS idx_fee_timestamp ON operator_fee_history(timestamp)`);
+    await db.execute(`CREATE INDEX IF NOT EXISTS idx_safety_operator ON safety_trips(operator, reset_at)`);
+    await db.execute(`CREATE INDEX IF NOT EXISTS idx_journal_status ON reclaim_journal(operator, status)`);
+    await db.execute(`CREATE INDEX IF NOT EXISTS idx_treasury_operator ON treasury_transfers(operator, created_at)`);
+    await db.execute(`CREATE INDEX IF NOT EXISTS idx_authority_account ON authority_history(operator, account, authority_type, slot)`);
 
     // Migration: Add initial_timestamp if it doesn't exist
     try {
@@ -197,6 +288,37 @@ export async function initDb(): Promise<void> {
         console.log('[Database] Migrated: Added error_message column');
     } catch (e) { /* ignore */ }
 
+    // Migration: Why an account is in its current status (e.g. locked by a multisig without enough signers)
+    try {
+        await db.execute("ALTER TABLE sponsored_accounts ADD COLUMN status_reason TEXT");
+        console.log('[Database] Migrated: Added status_reason column');
+    } catch (e) { /* ignore */ }
+
+    // Migration: Wallet the rent was closed to (per-operator reclaim destination)
+    try {
+        await db.execute("ALTER TABLE sponsored_accounts ADD COLUMN reclaim_destination TEXT");
+        console.log('[Database] Migrated: Added reclaim_destination column');
+    } catch (e) { /* ignore */ }
+
+    // Migration: Accounts found only by a direct close-authority scan (or added by hand), not in the operator history
+    try {
+        await db.execute("ALTER TABLE sponsored_accounts ADD COLUMN discovered_via TEXT");
+        console.log('[Database] Migrated: Added discovered_via column');
+    } catch (e) { /* ignore */ }
+
+    // Migration: Track priority fees paid on transactions we send
+    try {
+        await db.execute("ALTER TABLE operator_fee_history ADD COLUMN priority_fee_micro_lamports INTEGER");
+        await db.execute("ALTER TABLE operator_fee_history ADD COLUMN priority_fee_lamports INTEGER");
+        console.log('[Database] Migrated: Added priority fee columns');
+    } catch (e) { /* ignore */ }
+
+    // Migration: Durable-nonce journal entries (reclaim plans) expire when their nonce advances
+    try {
+        await db.execute("ALTER TABLE reclaim_journal ADD COLUMN nonce_account TEXT");
+        console.log('[Database] Migrated: Added journal nonce_account column');
+    } catch (e) { /* ignore */ }
+
     console.log('[Database] Tables initialized');
 }
 
@@ -221,6 +343,10 @@ export interface SponsoredAccount {
     closedAt?: number;
     reclaimedAmount?: number;
     errorMessage?: string;
+    statusReason?: string;
+    reclaimDestination?: string;
+    // 'direct' or 'manual' while the account has not been seen in the operator history
+    discoveredVia?: string;
 }
 
 async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
@@ -243,9 +369,9 @@ export async function upsertSponsoredAccount(account: SponsoredAccount): Promise
             INSERT INTO sponsored_accounts (
                 pubkey, operator, user_wallet, mint, type, rent_paid, signature, slot, initial_timestamp, 
                 reclaimed_at, reclaim_signature, sponsorship_source, memo, status, last_checked,
-                closed_at, reclaimed_amount, error_message
+                closed_at, reclaimed_amount, error_message, status_reason, discovered_via
             )
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             ON CONFLICT(pubkey) DO UPDATE SET
                 status = excluded.status,
                 last_checked = excluded.last_checked,
@@ -256,7 +382,10 @@ export async function upsertSponsoredAccount(account: SponsoredAccount): Promise
                 memo = COALESCE(excluded.memo, memo),
                 closed_at = COALESCE(closed_at, excluded.closed_at), -- Preserve existing closed_at
                 reclaimed_amount = COALESCE(excluded.reclaimed_amount, reclaimed_amount),
-                error_message = COALESCE(excluded.error_message, error_message)
+                error_message = COALESCE(excluded.error_message, error_message),
+                status_reason = excluded.status_reason,
+                -- Seen in history (no marker) clears it; a direct or manual find keeps what is there
+                discovered_via = CASE WHEN excluded.discovered_via IS NULL THEN NULL ELSE discovered_via END
         `,
         args: [
             account.pubkey, account.operator, account.userWallet, account.mint, account.type,
@@ -264,7 +393,8 @@ export async function upsertSponsoredAccount(account: SponsoredAccount): Promise
             account.reclaimedAt || null, account.reclaimSignature || null,
             account.sponsorshipSource || null, account.memo || null,
             account.status, Date.now(),
-            account.closedAt || null, account.reclaimedAmount || null, account.errorMessage || null
+            account.closedAt || null, account.reclaimedAmount || null, account.errorMessage || null,
+            account.statusReason || null, account.discoveredVia || null
         ]
     }));
 }
@@ -277,9 +407,9 @@ export async function batchUpsertAccounts(accounts: SponsoredAccount[]): Promise
             INSERT INTO sponsored_accounts (
                 pubkey, operator, user_wallet, mint, type, rent_paid, signature, slot, initial_timestamp, 
                 reclaimed_at, reclaim_signature, sponsorship_source, memo, status, last_checked,
-                closed_at, reclaimed_amount, error_message
+                closed_at, reclaimed_amount, error_message, status_reason, discovered_via
             )
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             ON CONFLICT(pubkey) DO UPDATE SET
                 status = excluded.status,
                 last_checked = excluded.last_checked,
@@ -290,7 +420,10 @@ export async function batchUpsertAccounts(accounts: SponsoredAccount[]): Promise
                 memo = COALESCE(excluded.memo, memo),
                 closed_at = COALESCE(closed_at, excluded.closed_at), -- Preserve existing closed_at
                 reclaimed_amount = COALESCE(excluded.reclaimed_amount, reclaimed_amount),
-                error_message = COALESCE(excluded.error_message, error_message)
+                error_message = COALESCE(excluded.error_message, error_message),
+                status_reason = excluded.status_reason,
+                -- Seen in history (no marker) clears it; a direct or manual find keeps what is there
+                discovered_via = CASE WHEN excluded.discovered_via IS NULL THEN NULL ELSE discovered_via END
         `,
         args: [
             acc.pubkey, acc.operator, acc.userWallet, acc.mint, acc.type,
@@ -298,7 +431,8 @@ export async function batchUpsertAccounts(accounts: SponsoredAccount[]): Promise
             acc.reclaimedAt || null, acc.reclaimSignature || null,
             acc.sponsorshipSource || null, acc.memo || null,
             acc.status, Date.now(),
-            acc.closedAt || null, acc.reclaimedAmount || null, acc.errorMessage || null
+            acc.closedAt || null, acc.reclaimedAmount || null, acc.errorMessage || null,
+            acc.statusReason || null, acc.discoveredVia || null
         ]
     }));
 
@@ -333,6 +467,9 @@ export async function getAccountsForOperator(operator: string): Promise<Sponsore
         closedAt: row.closed_at as number,
         reclaimedAmount: row.reclaimed_amount as number,
         errorMessage: row.error_message as string,
+        statusReason: row.status_reason as string,
+        reclaimDestination: row.reclaim_destination as string,
+        discoveredVia: row.discovered_via as string,
     }));
 }
 
@@ -361,9 +498,54 @@ export async function getAllAccounts(operator: string): Promise<SponsoredAccount
         closedAt: row.closed_at as number,
         reclaimedAmount: row.reclaimed_amount as number,
         errorMessage: row.error_message as string,
+        statusReason: row.status_reason as string,
+        reclaimDestination: row.reclaim_destination as string,
+        discoveredVia: row.discovered_via as string,
     }));
 }
 
+/**
+ * Tracked accounts of the operator among `pubkeys` (untracked ones are simply absent)
+ */
+export async function getAccountsByPubkeys(operator: string, pubkeys: string[]): Promise<SponsoredAccount[]> {
+    const db = getClient();
+    const CHUNK_SIZE = 500;
+    const accounts: SponsoredAccount[] = [];
+
+    for (let i = 0; i < pubkeys.length; i += CHUNK_SIZE) {
+        const chunk = pubkeys.slice(i, i + CHUNK_SIZE);
+        const result = await withRetry(() => db.execute({
+            sql: `SELECT * FROM sponsored_accounts WHERE operator = ? AND pubkey IN (${chunk.map(() => '?').join(', ')})`,
+            args: [operator, ...chunk]
+        }));
+
+        accounts.push(...result.rows.map(row => ({
+            pubkey: row.pubkey as string,
+            operator: row.operator as string,
+            userWallet: row.user_wallet as string,
+            mint: row.mint as string,
+            type: row.type as string,
+            rentPaid: Number(row.rent_paid || 0),
+            signature: row.signature as string,
+            slot: row.slot as number,
+            initialTimestamp: row.initial_timestamp as number,
+            reclaimedAt: row.reclaimed_at as number,
+            reclaimSignature: row.reclaim_signature as string,
+            sponsorshipSource: row.sponsorship_source as string,
+            memo: row.memo as string,
+            status: row.status as string,
+            closedAt: row.closed_at as number,
+            reclaimedAmount: row.reclaimed_amount as number,
+            errorMessage: row.error_message as string,
+            statusReason: row.status_reason as string,
+            reclaimDestination: row.reclaim_destination as string,
+            discoveredVia: row.discovered_via as string,
+        })));
+    }
+
+    return accounts;
+}
+
 export async function updateAccountStatus(pubkey: string, status: string, reclaimedAt?: number, reclaimSignature?: string): Promise<void> {
     const db = getClient();
     const sql = reclaimedAt && reclaimSignature
@@ -397,7 +579,10 @@ export async function batchUpdateAccountMetadata(updates: {
     memo?: string,
     reclaimedAmount?: number,
     errorMessage?: string,
-    closedAt?: number
+    closedAt?: number,
+    // Replaces the stored reason whenever status is set (cleared when omitted)
+    statusReason?: string,
+    reclaimDestination?: string
 }[]): Promise<void> {
     if (updates.length === 0) return;
     const db = getClient();
@@ -412,6 +597,8 @@ export async function batchUpdateAccountMetadata(updates: {
                 reclaimed_amount = COALESCE(?, reclaimed_amount),
                 error_message = COALESCE(?, error_message),
                 closed_at = COALESCE(closed_at, ?), -- Preserve existing
+                status_reason = CASE WHEN ? IS NULL THEN status_reason ELSE ? END,
+                reclaim_destination = COALESCE(?, reclaim_destination),
                 last_checked = ? 
               WHERE pubkey = ?`,
         args: [
@@ -424,6 +611,9 @@ export async function batchUpdateAccountMetadata(updates: {
             u.reclaimedAmount || null,
             u.errorMessage || null,
             u.closedAt || null,
+            u.status || null,
+            u.statusReason || null,
+            u.reclaimDestination || null,
             Date.now(),
             u.pubkey
         ]
@@ -568,6 +758,34 @@ export async function batchAddOperatorFees(fees: Array<{ signature: string, oper
     await withRetry(() => db.batch(batch));
 }
 
+/**
+ * Record a transaction we sent ourselves, including the priority fee we chose
+ */
+export async function recordSentTransactionFee(fee: {
+    signature: string,
+    operator: string,
+    feeLamports: number,
+    priorityFeeMicroLamports: number,
+    priorityFeeLamports: number,
+    timestamp: number,
+    txType: string,
+    slot: number
+}): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: `
+            INSERT INTO operator_fee_history (signature, operator, fee_lamports, timestamp, tx_type, slot, priority_fee_micro_lamports, priority_fee_lamports)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(signature) DO UPDATE SET
+                fee_lamports = excluded.fee_lamports,
+                tx_type = excluded.tx_type,
+                priority_fee_micro_lamports = excluded.priority_fee_micro_lamports,
+                priority_fee_lamports = excluded.priority_fee_lamports
+        `,
+        args: [fee.signature, fee.operator, fee.feeLamports, fee.timestamp, fee.txType, fee.slot, fee.priorityFeeMicroLamports, fee.priorityFeeLamports]
+    }));
+}
+
 export async function getOperatorTotalFees(operator: string): Promise<{
     totalFees: number;
     totalFeesLamports: number;
@@ -600,6 +818,295 @@ export async function getOperatorTotalFees(operator: string): Promise<{
     };
 }
 
+/**
+ * Fees the operator paid since `since` (ms), across every transaction type
+ */
+export async function getFeesPaidSince(operator: string, since: number): Promise<number> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT SUM(fee_lamports) as total FROM operator_fee_history WHERE operator = ? AND timestamp >= ?',
+        args: [operator, since]
+    }));
+    return Number(result.rows[0]?.total || 0);
+}
+
+// ============ Treasury Transfers ============
+
+export interface TreasuryTransfer {
+    id: number;
+    operator: string;
+    signature: string;
+    destination: string;
+    lamports: number;
+    // Balance left in the hot wallet by the sweep
+    reserveLamports: number | null;
+    createdAt: number;
+}
+
+export async function recordTreasuryTransfers(transfers: Omit<TreasuryTransfer, 'id' | 'createdAt'>[]): Promise<void> {
+    if (transfers.length === 0) return;
+    const db = getClient();
+    const createdAt = Date.now();
+    await withRetry(() => db.batch(transfers.map(t => ({
+        sql: 'INSERT INTO treasury_transfers (operator, signature, destination, lamports, reserve_lamports, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        args: [t.operator, t.signature, t.destination, t.lamports, t.reserveLamports, createdAt]
+    }))));
+}
+
+export async function getTreasuryTransfers(operator: string): Promise<TreasuryTransfer[]> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT * FROM treasury_transfers WHERE operator = ? ORDER BY created_at DESC',
+        args: [operator]
+    }));
+    return result.rows.map(row => ({
+        id: Number(row.id),
+        operator: row.operator as string,
+        signature: row.signature as string,
+        destination: row.destination as string,
+        lamports: Number(row.lamports),
+        reserveLamports: row.reserve_lamports === null ? null : Number(row.reserve_lamports),
+        createdAt: Number(row.created_at)
+    }));
+}
+
+// ============ Lookup Tables ============
+
+export interface LookupTableRecord {
+    address: string;
+    operator: string;
+    status: string;
+    createdAt: number;
+}
+
+export async function getLookupTables(operator: string, status?: string): Promise<LookupTableRecord[]> {
+    const db = getClient();
+    let sql = 'SELECT * FROM lookup_tables WHERE operator = ?';
+    const args: any[] = [operator];
+
+    if (status) {
+        sql += ' AND status = ?';
+        args.push(status);
+    }
+
+    const result = await withRetry(() => db.execute({ sql: sql + ' ORDER BY created_at DESC', args }));
+    return result.rows.map(row => ({
+        address: row.address as string,
+        operator: row.operator as string,
+        status: row.status as string,
+        createdAt: row.created_at as number,
+    }));
+}
+
+export async function saveLookupTable(address: string, operator: string, status: string = 'active'): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: `
+            INSERT INTO lookup_tables (address, operator, status) VALUES (?, ?, ?)
+            ON CONFLICT(address) DO UPDATE SET status = excluded.status
+        `,
+        args: [address, operator, status]
+    }));
+}
+
+// ============ Safety Trips ============
+
+export interface SafetyTrip {
+    id: number;
+    operator: string;
+    rule: string;
+    detail: string;
+    // The offending account, for per-account rules
+    account: string | null;
+    lamports: number;
+    trippedAt: number;
+    resetAt: number | null;
+    resetNote: string | null;
+}
+
+function mapSafetyTrip(row: any): SafetyTrip {
+    return {
+        id: Number(row.id),
+        operator: row.operator as string,
+        rule: row.rule as string,
+        detail: row.detail as string,
+        account: row.account as string | null,
+        lamports: Number(row.lamports || 0),
+        trippedAt: Number(row.tripped_at),
+        resetAt: row.reset_at === null ? null : Number(row.reset_at),
+        resetNote: row.reset_note as string | null,
+    };
+}
+
+export async function recordSafetyTrip(trip: { operator: string, rule: string, detail: string, account?: string, lamports: number }): Promise<SafetyTrip> {
+    const db = getClient();
+    const trippedAt = Date.now();
+    const result = await withRetry(() => db.execute({
+        sql: 'INSERT INTO safety_trips (operator, rule, detail, account, lamports, tripped_at) VALUES (?, ?, ?, ?, ?, ?)',
+        args: [trip.operator, trip.rule, trip.detail, trip.account ?? null, trip.lamports, trippedAt]
+    }));
+    return { id: Number(result.lastInsertRowid), ...trip, account: trip.account ?? null, trippedAt, resetAt: null, resetNote: null };
+}
+
+/**
+ * The oldest trip that has not been reset, if any
+ */
+export async function getActiveSafetyTrip(operator: string): Promise<SafetyTrip | null> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT * FROM safety_trips WHERE operator = ? AND reset_at IS NULL ORDER BY tripped_at ASC LIMIT 1',
+        args: [operator]
+    }));
+    return result.rows.length > 0 ? mapSafetyTrip(result.rows[0]) : null;
+}
+
+export async function getSafetyTrips(operator: string, limit: number = 20): Promise<SafetyTrip[]> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT * FROM safety_trips WHERE operator = ? ORDER BY tripped_at DESC LIMIT ?',
+        args: [operator, limit]
+    }));
+    return result.rows.map(mapSafetyTrip);
+}
+
+/**
+ * Clear every active trip. Returns how many were reset.
+ */
+export async function resetSafetyTrips(operator: string, note: string): Promise<number> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'UPDATE safety_trips SET reset_at = ?, reset_note = ? WHERE operator = ? AND reset_at IS NULL',
+        args: [Date.now(), note, operator]
+    }));
+    return result.rowsAffected;
+}
+
+/**
+ * Lamports reclaimed since a timestamp (ms), for the rolling circuit breaker windows
+ */
+export async function getReclaimedLamportsSince(operator: string, since: number): Promise<number> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT SUM(reclaimed_amount) as total FROM sponsored_accounts WHERE operator = ? AND reclaimed_at >= ?',
+        args: [operator, since]
+    }));
+    return Number(result.rows[0]?.total || 0);
+}
+
+// ============ Reclaim Finality ============
+
+/**
+ * Accounts closed at `confirmed` commitment that are not yet known to be finalized
+ */
+export async function getPendingReclaims(operator: string): Promise<Array<{ pubkey: string; reclaimSignature: string; reclaimedAt: number }>> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: "SELECT pubkey, reclaim_signature, reclaimed_at FROM sponsored_accounts WHERE operator = ? AND status = 'reclaim_pending'",
+        args: [operator]
+    }));
+    return result.rows.map(row => ({
+        pubkey: row.pubkey as string,
+        reclaimSignature: row.reclaim_signature as string,
+        reclaimedAt: Number(row.reclaimed_at || 0),
+    }));
+}
+
+/**
+ * The close never finalized (dropped by a fork, or failed): undo the reclaim record so the account is retried
+ */
+export async function revertPendingReclaims(pubkeys: string[], reason: string): Promise<void> {
+    if (pubkeys.length === 0) return;
+    const db = getClient();
+    const batch = pubkeys.map(pubkey => ({
+        sql: `
+            UPDATE sponsored_accounts SET
+                status = 'reclaimable',
+                reclaimed_at = NULL,
+                reclaim_signature = NULL,
+                reclaimed_amount = NULL,
+                reclaim_destination = NULL,
+                error_message = ?,
+                last_checked = ?
+            WHERE pubkey = ? AND status = 'reclaim_pending'
+        `,
+        args: [reason, Date.now(), pubkey]
+    }));
+    await withRetry(() => db.batch(batch));
+}
+
+// ============ Reclaim Journal ============
+
+export type JournalStatus = 'pending' | 'landed' | 'expired' | 'failed';
+
+export interface JournalEntry {
+    signature: string;
+    operator: string;
+    // Accounts closed by the transaction, with the lamports expected from each
+    accounts: Array<{ pubkey: string; lamports: number }>;
+    destination: string | null;
+    // Recent blockhash, or the nonce value for durable-nonce transactions
+    blockhash: string;
+    // Unused for durable-nonce transactions
+    lastValidBlockHeight: number;
+    // Set for durable-nonce transactions: they stay valid until this account's nonce advances
+    nonceAccount?: string | null;
+    status: JournalStatus;
+    error: string | null;
+    createdAt: number;
+}
+
+export async function addJournalEntry(entry: Omit<JournalEntry, 'status' | 'error' | 'createdAt'>): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: `
+            INSERT INTO reclaim_journal (signature, operator, accounts, destination, blockhash, last_valid_block_height, nonce_account, status, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+        `,
+        args: [entry.signature, entry.operator, JSON.stringify(entry.accounts), entry.destination, entry.blockhash, entry.lastValidBlockHeight, entry.nonceAccount ?? null, Date.now()]
+    }));
+}
+
+export async function updateJournalStatus(signature: string, status: JournalStatus, error?: string): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: 'UPDATE reclaim_journal SET status = ?, error = ?, updated_at = ? WHERE signature = ?',
+        args: [status, error ?? null, Date.now(), signature]
+    }));
+}
+
+export async function getPendingJournalEntries(operator: string): Promise<JournalEntry[]> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: "SELECT * FROM reclaim_journal WHERE operator = ? AND status = 'pending' ORDER BY created_at ASC",
+        args: [operator]
+    }));
+    return result.rows.map(toJournalEntry);
+}
+
+export async function getJournalEntry(signature: string): Promise<JournalEntry | null> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT * FROM reclaim_journal WHERE signature = ?',
+        args: [signature]
+    }));
+    return result.rows.length > 0 ? toJournalEntry(result.rows[0]) : null;
+}
+
+function toJournalEntry(row: Row): JournalEntry {
+    return {
+        signature: row.signature as string,
+        operator: row.operator as string,
+        accounts: JSON.parse(row.accounts as string),
+        destination: row.destination as string | null,
+        blockhash: row.blockhash as string,
+        lastValidBlockHeight: Number(row.last_valid_block_height),
+        nonceAccount: row.nonce_account as string | null,
+        status: row.status as JournalStatus,
+        error: row.error as string | null,
+        createdAt: Number(row.created_at),
+    };
+}
+
 // ============ Scan Checkpoints ============
 
 export interface ScanCheckpoint {
@@ -675,6 +1182,138 @@ export async function updateCheckpoint(checkpoint: Partial<ScanCheckpoint> & { o
     }));
 }
 
+// ============ Scan Ranges ============
+
+export interface ScanRange {
+    operator: string;
+    rangeId: number;
+    // Exclusive bounds: newer end (null = newest history) and older end (null = start of history)
+    beforeSignature: string | null;
+    untilSignature: string | null;
+    // Oldest signature processed so far, the crawl resumes below it
+    cursorSignature: string | null;
+    cursorSlot: number | null;
+    processed: number;
+    status: 'pending' | 'done';
+}
+
+export async function saveScanRanges(operator: string, ranges: Array<{ beforeSignature: string | null; untilSignature: string | null }>): Promise<void> {
+    if (ranges.length === 0) return;
+    const db = getClient();
+    const now = Date.now();
+    const batch = ranges.map((r, i) => ({
+        sql: `
+            INSERT OR REPLACE INTO scan_ranges (operator, range_id, before_signature, until_signature, processed, status, updated_at)
+            VALUES (?, ?, ?, ?, 0, 'pending', ?)
+        `,
+        args: [operator, i, r.beforeSignature, r.untilSignature, now]
+    }));
+
+    await withRetry(() => db.batch(batch));
+}
+
+export async function getScanRanges(operator: string): Promise<ScanRange[]> {
+    const db = getClient();
+    const result = await withRetry(() => db.execute({
+        sql: 'SELECT * FROM scan_ranges WHERE operator = ? ORDER BY range_id ASC',
+        args: [operator]
+    }));
+    return result.rows.map(row => ({
+        operator: row.operator as string,
+        rangeId: Number(row.range_id),
+        beforeSignature: row.before_signature as string | null,
+        untilSignature: row.until_signature as string | null,
+        cursorSignature: row.cursor_signature as string | null,
+        cursorSlot: row.cursor_slot === null ? null : Number(row.cursor_slot),
+        processed: Number(row.processed),
+        status: row.status as ScanRange['status'],
+    }));
+}
+
+export async function updateScanRange(range: Pick<ScanRange, 'operator' | 'rangeId' | 'cursorSignature' | 'cursorSlot' | 'processed' | 'status'>): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: `
+            UPDATE scan_ranges SET cursor_signature = ?, cursor_slot = ?, processed = ?, status = ?, updated_at = ?
+            WHERE operator = ? AND range_id = ?
+        `,
+        args: [range.cursorSignature, range.cursorSlot, range.processed, range.status, Date.now(), range.operator, range.rangeId]
+    }));
+}
+
+export async function clearScanRanges(operator: string): Promise<void> {
+    const db = getClient();
+    await withRetry(() => db.execute({
+        sql: 'DELETE FROM scan_ranges WHERE operator = ?',
+        args: [operator]
+    }));
+}
+
+// ============ Authority History ============
+
+export interface AuthorityChange {
+    operator: string;
+    account: string;
+    // SPL Token authority type as named by the RPC parser, e.g. 'closeAccount' or 'accountOwner'
+    authorityType: string;
+    previousAuthority: string | null;
+    // Null when the authority was removed
+    newAuthority: string | null;
+    signature: string;
+    slot: number;
+    timestamp: number;
+}
+
+export async function recordAuthorityChanges(changes: AuthorityChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const db = getClient();
+    const batch = changes.map(c => ({
+        sql: `
+            INSERT OR IGNORE INTO authority_history (operator, account, authority_type, previous_authority, new_authority, signature, slot, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        args: [c.operator, c.account, c.authorityType, c.previousAuthority, c.newAuthority, c.signature, c.slot, c.timestamp]
+    }));
+
+    await withRetry(() => db.batch(batch));
+}
+
+/**
+ * Most recent change of one authority type per account, by slot (history is crawled out of order)
+ */
+export async function getLatestAuthorityChanges(operator: string, accounts: string[], authorityType: string): Promise<Map<string, AuthorityChange>> {
+    const db = getClient();
+    const CHUNK_SIZE = 500;
+    const latest = new Map<string, AuthorityChange>();
+
+    for (let i = 0; i < accounts.length; i += CHUNK_SIZE) {
+        const chunk = accounts.slice(i, i + CHUNK_SIZE);
+        const result = await withRetry(() => db.execute({
+            sql: `
+                SELECT * FROM authority_history
+                WHERE operator = ? AND authority_type = ? AND account IN (${chunk.map(() => '?').join(', ')})
+                ORDER BY slot ASC, id ASC
+            `,
+            args: [operator, authorityType, ...chunk]
+        }));
+
+        for (const row of result.rows) {
+            latest.set(row.account as string, {
+                operator: row.operator as string,
+                account: row.account as string,
+                authorityType: row.authority_type as string,
+                previousAuthority: row.previous_authority as string | null,
+                newAuthority: row.new_authority as string | null,
+                signature: row.signature as string,
+                slot: Number(row.slot),
+                timestamp: Number(row.timestamp || 0),
+            });
+        }
+    }
+
+    return latest;
+}
+
 // ============ Query Helpers ============
 
 export async function getOperatorStats(operator: string): Promise<{
@@ -724,7 +1363,19 @@ export async function getAccountsByUserWallet(operator: string): Promise<Map<str
     return grouped;
 }
 
-export async function getReclaimableAccounts(operator?: string): Promise<SponsoredAccount[]> {
+/**
+ * Narrows which reclaimable accounts are returned. Unset fields match everything.
+ */
+export interface ReclaimableFilter {
+    mints?: string[];
+    userWallets?: string[];
+    sources?: string[];
+    // Only accounts created before this time (ms)
+    createdBefore?: number;
+    minLamports?: number;
+}
+
+export async function getReclaimableAccounts(operator?: string, filter: ReclaimableFilter = {}): Promise<SponsoredAccount[]> {
     const db = getClient();
     let sql = "SELECT * FROM sponsored_accounts WHERE status = 'reclaimable'";
     let args: any[] = [];
@@ -734,6 +1385,28 @@ export async function getReclaimableAccounts(operator?: string): Promise<Sponsor
         args.push(operator);
     }
 
+    const inList: Array<[string, string[] | undefined]> = [
+        ['mint', filter.mints],
+        ['user_wallet', filter.userWallets],
+        ['sponsorship_source', filter.sources]
+    ];
+    for (const [column, values] of inList) {
+        if (!values || values.length === 0) continue;
+        sql += ` AND ${column} IN (${values.map(() => '?').join(', ')})`;
+        args.push(...values);
+    }
+    if (filter.createdBefore !== undefined) {
+        sql += " AND initial_timestamp IS NOT NULL AND initial_timestamp <= ?";
+        args.push(filter.createdBefore);
+    }
+    if (filter.minLamports !== undefined) {
+        sql += " AND rent_paid >= ?";
+        args.push(filter.minLamports);
+    }
+
+    // Oldest first, so account and SOL caps take the longest-abandoned accounts
+    sql += " ORDER BY initial_timestamp ASC";
+
     const result = await withRetry(() => db.execute({ sql, args }));
 
     return result.rows.map(row => ({
@@ -746,7 +1419,11 @@ export async function getReclaimableAccounts(operator?: string): Promise<Sponsor
         signature: row.signature as string,
         slot: row.slot as number,
         initialTimestamp: row.initial_timestamp as number,
+        sponsorshipSource: row.sponsorship_source as string,
         status: row.status as string,
+        statusReason: row.status_reason as string,
+        reclaimDestination: row.reclaim_destination as string,
+        closedAt: row.closed_at as number,
     }));
 }
 
@@ -786,20 +1463,35 @@ export async function getGlobalCloudStats(): Promise<{
 
 // ============ Analytics & Config ============
 
-export async function getDetailedAnalytics(operator: string) {
+/**
+ * `finalizedOnly` leaves reclaims still awaiting finalization (`reclaim_pending`) out of realized rent
+ */
+export async function getDetailedAnalytics(operator: string, options: { finalizedOnly?: boolean } = {}) {
     const db = getClient();
+    const realizedStatuses = options.finalizedOnly
+        ? `status = 'reclaimed' OR status = 'closed'`
+        : `status = 'reclaimed' OR status = 'closed' OR status = 'reclaim_pending'`;
+    const recoveredStatuses = options.finalizedOnly
+        ? `status = 'reclaimed'`
+        : `status = 'reclaimed' OR status = 'reclaim_pending'`;
     const stats = await db.execute({
         sql: `
             SELECT 
                 COUNT(*) as total_accounts,
                 COUNT(DISTINCT user_wallet) as unique_users,
                 SUM(rent_paid) as total_reclaimed_lamports, -- Actually total INTENT of rent
-                SUM(CASE WHEN status = 'reclaimed' OR status = 'closed' THEN rent_paid ELSE 0 END) as realized_rent,
+                SUM(CASE WHEN ${realizedStatuses} THEN rent_paid ELSE 0 END) as realized_rent,
+                SUM(CASE WHEN ${recoveredStatuses} THEN COALESCE(reclaimed_amount, rent_paid) ELSE 0 END) as recovered_lamports,
+                COUNT(CASE WHEN status = 'reclaim_pending' THEN 1 END) as pending_finality_count,
+                SUM(CASE WHEN status = 'reclaim_pending' THEN rent_paid ELSE 0 END) as pending_finality_lamports,
                 COUNT(DISTINCT mint) as unique_mints,
                 SUM(CASE WHEN sponsorship_source IS NOT NULL THEN 1 ELSE 0 END) as has_birth_cert,
                 SUM(CASE WHEN reclaimed_at IS NOT NULL THEN 1 ELSE 0 END) as has_death_cert,
                 COUNT(CASE WHEN status = 'active' THEN 1 END) as active_count,
-                COUNT(CASE WHEN status = 'locked' THEN 1 END) as locked_count
+                COUNT(CASE WHEN status = 'locked' THEN 1 END) as locked_count,
+                COUNT(CASE WHEN status = 'frozen' THEN 1 END) as frozen_count,
+                COUNT(CASE WHEN status = 'native' THEN 1 END) as native_count,
+                COUNT(CASE WHEN status = 'uninitialized' THEN 1 END) as uninitialized_count
             FROM sponsored_accounts
             WHERE operator = ?
         `,
@@ -820,11 +1512,30 @@ export async function getDetailedAnalytics(operator: string) {
 
     const feeStats = await getOperatorTotalFees(operator);
 
+    // Fees of the reclaim transactions themselves and their lookup table upkeep (read from landed transaction meta)
+    const reclaimFees = await db.execute({
+        sql: `
+            SELECT SUM(fee_lamports) as fees, SUM(priority_fee_lamports) as priority_fees
+            FROM operator_fee_history
+            WHERE operator = ? AND tx_type IN ('RECLAIM', 'RECLAIM_PLAN', 'LOOKUP_TABLE')
+        `,
+        args: [operator]
+    });
+
+    const treasury = await db.execute({
+        sql: 'SELECT SUM(lamports) as swept, COUNT(*) as transfers FROM treasury_transfers WHERE operator = ?',
+        args: [operator]
+    });
+
     return {
         ...stats.rows[0],
         top_mints: mints.rows,
         total_fees_lamports: feeStats.totalFeesLamports,
-        tx_count: feeStats.txCount
+        tx_count: feeStats.txCount,
+        reclaim_fees_lamports: Number(reclaimFees.rows[0]?.fees || 0),
+        reclaim_priority_fees_lamports: Number(reclaimFees.rows[0]?.priority_fees || 0),
+        treasury_swept_lamports: Number(treasury.rows[0]?.swept || 0),
+        treasury_transfer_count: Number(treasury.rows[0]?.transfers || 0)
     };
 }
 
@@ -854,10 +1565,13 @@ export async function getRecentActivity(limit: number): Promise<any[]> {
     const db = getClient();
     const result = await db.execute({
         sql: `
-            SELECT pubkey, rent_paid, last_checked as timestamp
+            SELECT 'reclaim' as kind, pubkey, rent_paid as lamports, status, last_checked as timestamp, NULL as signature
             FROM sponsored_accounts
-            WHERE status = 'reclaimed' OR status = 'closed'
-            ORDER BY last_checked DESC
+            WHERE status = 'reclaimed' OR status = 'reclaim_pending' OR status = 'closed'
+            UNION ALL
+            SELECT 'treasury' as kind, destination as pubkey, lamports, 'swept' as status, created_at as timestamp, signature
+            FROM treasury_transfers
+            ORDER BY timestamp DESC
             LIMIT ?
         `,
         args: [limit]
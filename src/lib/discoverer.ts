@@ -1,5 +1,6 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { DiscoveryClient, DiscoveryTransaction } from './rpc';
+import bs58 from 'bs58';
+import { DiscoveryClient, DiscoveryInstruction, DiscoveryTransaction } from './rpc';
 import * as database from './database';
 import { Analyzer } from './analyzer';
 
@@ -8,6 +9,28 @@ const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
 const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbAtYpYbt9UEHJR9YWYvNf2t8S77tB39L';
 const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
 
+// Token program instruction discriminators (raw instruction data)
+const INITIALIZE_ACCOUNT = 1;
+const SET_AUTHORITY = 6;
+const INITIALIZE_ACCOUNT_2 = 16;
+const INITIALIZE_ACCOUNT_3 = 18;
+// SetAuthority authority types by their on-chain index, named like the RPC parser does
+const AUTHORITY_TYPES = ['mintTokens', 'freezeAccount', 'accountOwner', 'closeAccount'];
+// Authorities held on a token account (the others belong to mints)
+const ACCOUNT_AUTHORITY_TYPES = new Set(['accountOwner', 'closeAccount']);
+// Accounts whose status no longer depends on who holds the close authority
+const FINAL_STATUSES = new Set(['reclaimed', 'reclaim_pending', 'closed']);
+
+// First history scan: ranges crawled at once, and signatures per range
+const DISCOVERY_CONCURRENCY = Math.max(1, parseInt(process.env.DISCOVERY_CONCURRENCY || '4'));
+const DISCOVERY_RANGE_SIZE = Math.max(100, parseInt(process.env.DISCOVERY_RANGE_SIZE || '2000'));
+
+// Rent-exempt minimum is (128 + data size) bytes worth of rent
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+const TOKEN_ACCOUNT_SIZE = 165;
+// Upper bound for a Token-2022 account carrying every account extension
+const MAX_TOKEN_2022_ACCOUNT_SIZE = 1024;
+
 const SYSTEM_ADDRESSES = new Set([
     'SysvarRent111111111111111111111111111111111',
     'SysvarC1ock11111111111111111111111111111111',
@@ -15,6 +38,12 @@ const SYSTEM_ADDRESSES = new Set([
     ASSOCIATED_TOKEN_PROGRAM_ID, 'ComputeBudget111111111111111111111111111111',
 ]);
 
+interface ResolvedTokenAccount {
+    type: 'token' | 'token-2022';
+    userWallet: string;
+    mint: string;
+}
+
 export interface DiscoveredAccount {
     pubkey: string;
     userWallet: string;
@@ -33,6 +62,146 @@ export interface DiscoveredAccount {
  */
 const ACTIVE_SCANS = new Set<string>();
 
+/**
+ * Every instruction in the call tree: each top-level instruction followed by the ones it invoked
+ */
+function flattenInstructions(tx: DiscoveryTransaction): DiscoveryInstruction[] {
+    return (tx.instructions || []).flatMap(ix => [ix, ...(ix.innerInstructions || [])]);
+}
+
+/**
+ * Owner, mint and program of a token account from the instruction that created it
+ * (CreateAssociatedTokenAccount or InitializeAccount/2/3), parsed or raw. A SetAuthority on the
+ * account only tells the token program. Null when no instruction touches the account.
+ */
+function resolveTokenAccount(acc: string, instructions: DiscoveryInstruction[]): ResolvedTokenAccount | null {
+    let fromAuthority: ResolvedTokenAccount | null = null;
+
+    for (const ix of instructions) {
+        const info = ix.parsed?.info;
+        const accounts = ix.accounts || [];
+
+        if (ix.programId === ASSOCIATED_TOKEN_PROGRAM_ID) {
+            // Raw accounts: [payer, ata, owner, mint, system, token program]
+            const ata = info ? info.account : accounts[1];
+            if (ata !== acc) continue;
+            const tokenProgram = info ? info.tokenProgram : accounts[5];
+            return {
+                type: tokenProgram === TOKEN_2022_PROGRAM_ID ? 'token-2022' : 'token',
+                userWallet: (info ? info.wallet : accounts[2]) || '',
+                mint: (info ? info.mint : accounts[3]) || ''
+            };
+        }
+
+        if (ix.programId !== TOKEN_PROGRAM_ID && ix.programId !== TOKEN_2022_PROGRAM_ID) continue;
+        const type = ix.programId === TOKEN_2022_PROGRAM_ID ? 'token-2022' : 'token';
+
+        if (info) {
+            const kind: string = ix.parsed.type || '';
+            if (kind.startsWith('initializeAccount') && info.account === acc) {
+                return { type, userWallet: info.owner || '', mint: info.mint || '' };
+            }
+            if (kind === 'setAuthority' && info.account === acc && !fromAuthority) {
+                fromAuthority = { type, userWallet: '', mint: '' };
+            }
+            continue;
+        }
+
+        if (accounts[0] !== acc || !ix.data) continue;
+        let data: Uint8Array;
+        try {
+            data = bs58.decode(ix.data);
+        } catch {
+            continue;
+        }
+
+        // InitializeAccount: [account, mint, owner, rent]; 2 and 3 carry the owner in the data
+        if (data[0] === INITIALIZE_ACCOUNT) {
+            return { type, userWallet: accounts[2] || '', mint: accounts[1] || '' };
+        }
+        if ((data[0] === INITIALIZE_ACCOUNT_2 || data[0] === INITIALIZE_ACCOUNT_3) && data.length >= 33) {
+            return { type, userWallet: new PublicKey(data.subarray(1, 33)).toBase58(), mint: accounts[1] || '' };
+        }
+        if (data[0] === SET_AUTHORITY && !fromAuthority) {
+            fromAuthority = { type, userWallet: '', mint: '' };
+        }
+    }
+
+    return fromAuthority;
+}
+
+// An authority change together with the token program that owns the account
+type ParsedAuthorityChange = Omit<database.AuthorityChange, 'operator'> & { type: ResolvedTokenAccount['type'] };
+
+/**
+ * Token account SetAuthority instructions anywhere in the call tree, parsed or raw, in execution order
+ */
+function parseAuthorityChanges(tx: DiscoveryTransaction): ParsedAuthorityChange[] {
+    const changes: ParsedAuthorityChange[] = [];
+
+    for (const ix of flattenInstructions(tx)) {
+        if (ix.programId !== TOKEN_PROGRAM_ID && ix.programId !== TOKEN_2022_PROGRAM_ID) continue;
+
+        let change: Pick<database.AuthorityChange, 'account' | 'authorityType' | 'previousAuthority' | 'newAuthority'> | null = null;
+        const info = ix.parsed?.info;
+
+        if (info) {
+            // Mint authority changes carry `mint` instead of `account`
+            if (ix.parsed.type !== 'setAuthority' || !info.account) continue;
+            change = {
+                account: info.account,
+                authorityType: info.authorityType,
+                previousAuthority: info.authority || info.multisigAuthority || null,
+                newAuthority: info.newAuthority || null
+            };
+        } else if (ix.data) {
+            // Raw: [6, authority type, option tag, new authority(32)], accounts [account, current authority, ...signers]
+            let data: Uint8Array;
+            try {
+                data = bs58.decode(ix.data);
+            } catch {
+                continue;
+            }
+            if (data[0] !== SET_AUTHORITY || data.length < 3 || !ix.accounts?.[0]) continue;
+            change = {
+                account: ix.accounts[0],
+                authorityType: AUTHORITY_TYPES[data[1]] || `authority_${data[1]}`,
+                previousAuthority: ix.accounts[1] || null,
+                newAuthority: data[2] === 1 && data.length >= 35 ? new PublicKey(data.subarray(3, 35)).toBase58() : null
+            };
+        }
+
+        if (change && ACCOUNT_AUTHORITY_TYPES.has(change.authorityType)) {
+            changes.push({
+                ...change,
+                type: ix.programId === TOKEN_2022_PROGRAM_ID ? 'token-2022' : 'token',
+                signature: tx.signature,
+                slot: tx.slot,
+                timestamp: (tx.timestamp || 0) * 1000
+            });
+        }
+    }
+
+    return changes;
+}
+
+function authorityMovedReason(newAuthority: string | null): string {
+    return newAuthority ? `authority_transferred: ${newAuthority}` : 'authority_removed';
+}
+
+/**
+ * Runs the worker over the items with at most `concurrency` in flight
+ */
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    });
+    await Promise.all(runners);
+}
+
 /**
  * Discoverer - Saves to Local SQLite, uses checkpoints for incremental scans
  */
@@ -121,7 +290,78 @@ export class Discoverer {
     }
 
     /**
-     * Comprehensive scan - fetches history incrementally
+     * Direct scan - every token account whose close authority is the operator, from the token programs themselves.
+     * Accounts not yet tracked are added and marked `discovered_via = 'direct'` until the history scan sees them.
+     * Accounts the history recorded as handed to the operator get that handover as their source.
+     *
+     * The operator's history misses SetAuthority transactions it took no part in, so tracked accounts are also
+     * checked against the scan: locked accounts back under the operator, and accounts the history saw handed to
+     * the operator that no longer are, both go back to `active` for the next refresh to re-verify.
+     */
+    async scanDirect(): Promise<{ found: number; added: number }> {
+        const operator = this.operatorAddress.toBase58();
+        console.log(`${this.logPrefix} Direct close-authority scan starting...`);
+
+        const analyzed = await this.analyzer.findReclaimableAccountsDirect();
+        // Zero-balance accounts we can close, plus those blocked by account state (same rule as saveAccounts)
+        const verified = analyzed.filter(a => a.canReclaim || (a.status !== undefined && a.status !== 'reclaimable'));
+
+        const known = new Set((await database.getAccountsByPubkeys(operator, verified.map(a => a.pubkey))).map(a => a.pubkey));
+        const missing = verified.filter(a => !known.has(a.pubkey));
+        const handovers = await database.getLatestAuthorityChanges(operator, missing.map(a => a.pubkey), 'closeAccount');
+
+        const toSave: database.SponsoredAccount[] = missing.map(a => {
+            const handover = handovers.get(a.pubkey);
+            const handedOver = handover?.newAuthority === operator;
+            return {
+                pubkey: a.pubkey,
+                operator,
+                userWallet: a.userWallet,
+                mint: a.mint,
+                type: a.type,
+                rentPaid: a.lamports,
+                signature: handedOver ? handover.signature : 'UNKNOWN',
+                slot: handedOver ? handover.slot : 0,
+                initialTimestamp: handedOver ? handover.timestamp : Date.now(),
+                sponsorshipSource: handedOver ? 'SET_AUTHORITY' : 'UNKNOWN',
+                memo: '',
+                status: a.canReclaim ? 'reclaimable' : a.status || 'locked',
+                statusReason: a.canReclaim ? undefined : a.reason,
+                closedAt: a.canReclaim ? Date.now() : undefined,
+                discoveredVia: 'direct'
+            };
+        });
+        await database.batchUpsertAccounts(toSave);
+        await this.reconcileCloseAuthority(new Set(analyzed.map(a => a.pubkey)));
+
+        console.log(`${this.logPrefix} Direct scan: ${verified.length} accounts under operator authority, ${missing.length} missing from history (added).`);
+        return { found: verified.length, added: missing.length };
+    }
+
+    /**
+     * Tracked accounts whose close authority changed without the history scan seeing it, judged against
+     * the accounts currently under the operator's close authority
+     */
+    private async reconcileCloseAuthority(underOperator: Set<string>): Promise<void> {
+        const tracked = (await database.getAllAccounts(this.operatorAddress.toBase58())).filter(a => !FINAL_STATUSES.has(a.status));
+        const updates: Parameters<typeof database.batchUpdateAccountMetadata>[0] = [];
+
+        for (const account of tracked) {
+            const movedAway = account.status === 'locked' && /^authority_(transferred|removed)/.test(account.statusReason || '');
+            const returned = movedAway && underOperator.has(account.pubkey);
+            const lost = !movedAway && account.sponsorshipSource === 'SET_AUTHORITY' && account.status !== 'active' && !underOperator.has(account.pubkey);
+            if (returned || lost) updates.push({ pubkey: account.pubkey, status: 'active' });
+        }
+
+        if (updates.length > 0) {
+            console.log(`${this.logPrefix} Close authority changed outside the history for ${updates.length} tracked accounts. Re-verifying.`);
+            await database.batchUpdateAccountMetadata(updates);
+        }
+    }
+
+    /**
+     * Comprehensive scan - splits the unscanned history into signature ranges and crawls them in parallel.
+     * Each range keeps its own cursor in `scan_ranges`, so an interrupted scan picks up every range where it stopped.
      */
     private async fullScan(limit: number = Infinity): Promise<void> {
         const operator = this.operatorAddress.toBase58();
@@ -152,101 +392,29 @@ export class Discoverer {
                 }
             }
 
-            // Start from where we left off (oldestSignature) or the very beginning
-            let before: string | undefined = checkpoint?.oldestSignature || undefined;
-            let totalProcessed = 0;
-            let foundAccounts: DiscoveredAccount[] = [];
-
-            let reachedEnd = false;
-            // Track boundaries
-            let newestSig: string | null = checkpoint?.newestSignature || null;
-            let newestSlot: number | null = checkpoint?.newestSlot || null;
-            let oldestSig: string | null = checkpoint?.oldestSignature || null;
-            let oldestSlot: number | null = checkpoint?.oldestSlot || null;
-
-            while (true) {
-                try {
-                    // OPTIMIZATION: Use 'SET_AUTHORITY' to ignore noise (transfers/swaps/etc)
-                    const txs = await this.heliusClient.getTransactionHistory(operator, {
-                        limit: 100,
-                        before,
-                        connection: this.connection
-                    });
-                    if (txs.length === 0) {
-                        reachedEnd = true;
-                        break;
-                    }
-
-                    // Track newest boundaries (only on the very first batch ever)
-                    if (!newestSig) {
-                        newestSig = txs[0].signature;
-                        newestSlot = txs[0].slot;
-                    }
-
-                    // Track oldest boundaries
-                    oldestSig = txs[txs.length - 1].signature;
-                    oldestSlot = txs[txs.length - 1].slot;
-
-                    // Process transactions
-                    for (const tx of txs) {
-                        const accounts = this.processTransaction(tx);
-                        foundAccounts.push(...accounts);
-
-                        // Save fee immediately (it's cheap)
-                        if (tx.feePayer === operator) {
-                            await database.addOperatorFee(tx.signature, operator, tx.fee, (tx.timestamp || 0) * 1000, tx.type, tx.slot);
-                        }
-                    }
-
-                    totalProcessed += txs.length;
-                    before = txs[txs.length - 1].signature;
-
-                    // Save batch to database
-                    if (foundAccounts.length >= 50) {
-                        await this.saveAccounts(foundAccounts);
-                        foundAccounts = [];
-
-                        // Periodically update checkpoint during long scans
-                        await database.updateCheckpoint({
-                            operator,
-                            oldestSignature: oldestSig,
-                            oldestSlot,
-                            newestSignature: newestSig,
-                            newestSlot,
-                            scanStatus: 'scanning'
-                        });
-                    }
-
-                    if (totalProcessed % 500 === 0) {
-                        console.log(`${this.logPrefix} Processed ${totalProcessed} txs downwards...`);
-                    }
-
-                    if (totalProcessed >= limit) {
-                        console.log(`${this.logPrefix} Hit scan limit of ${limit} transactions. Stop.`);
-                        break;
-                    }
-
-                    // Continue until we get an empty array
-                    await new Promise(r => setTimeout(r, 100)); // Rate limiting
-                } catch (e: any) {
-                    console.error(`${this.logPrefix} Error during historical scan: ${e.message}`);
-                    break; // Stop and save progress
-                }
+            let ranges = await database.getScanRanges(operator);
+            if (ranges.length === 0) {
+                await this.planScanRanges(checkpoint);
+                ranges = await database.getScanRanges(operator);
+            } else {
+                const pending = ranges.filter(r => r.status === 'pending').length;
+                console.log(`${this.logPrefix} Resuming ${pending}/${ranges.length} history ranges...`);
             }
 
-            // Save remaining accounts
-            if (foundAccounts.length > 0) {
-                await this.saveAccounts(foundAccounts);
-            }
+            const progress = { processed: 0, limit };
+            await runPool(ranges.filter(r => r.status === 'pending'), DISCOVERY_CONCURRENCY, range => this.crawlRange(range, progress));
+
+            const reachedEnd = ranges.every(r => r.status === 'done');
+            // The last range runs to the start of history, so its cursor is the oldest transaction
+            const oldest = reachedEnd ? ranges[ranges.length - 1] : undefined;
+            if (reachedEnd) await database.clearScanRanges(operator);
 
             // Final checkpoint update for this run
             const stats = await database.getOperatorStats(operator);
             await database.updateCheckpoint({
                 operator,
-                oldestSignature: oldestSig || undefined,
-                newestSignature: newestSig || undefined,
-                oldestSlot: oldestSlot || undefined,
-                newestSlot: newestSlot || undefined,
+                oldestSignature: oldest?.cursorSignature || undefined,
+                oldestSlot: oldest?.cursorSlot || undefined,
                 totalAccounts: stats.totalAccounts,
                 reclaimableCount: stats.reclaimableAccounts,
                 reclaimableLamports: stats.reclaimableLamports,
@@ -262,6 +430,109 @@ export class Discoverer {
         }
     }
 
+    /**
+     * Lists the signatures older than the checkpoint (cheap, 1000 per call) and stores them
+     * as ranges of DISCOVERY_RANGE_SIZE. The last range is left open towards the start of history.
+     */
+    private async planScanRanges(checkpoint: database.ScanCheckpoint | null): Promise<void> {
+        const operator = this.operatorAddress.toBase58();
+        console.log(`${this.logPrefix} Planning history ranges...`);
+
+        const start = checkpoint?.oldestSignature || null;
+        let before: string | undefined = start || undefined;
+        let newest: { signature: string; slot: number } | null = null;
+        let previous: string | null = null;
+        let listed = 0;
+        // Range boundaries: last signature of one range and first signature of the next
+        const splits: Array<{ last: string; first: string }> = [];
+
+        while (true) {
+            const page = await this.heliusClient.getSignatures(operator, { before, limit: 1000, connection: this.connection });
+            if (page.length === 0) break;
+            if (!newest) newest = page[0];
+
+            for (const sig of page) {
+                if (listed > 0 && listed % DISCOVERY_RANGE_SIZE === 0) {
+                    splits.push({ last: previous!, first: sig.signature });
+                }
+                previous = sig.signature;
+                listed++;
+            }
+            before = page[page.length - 1].signature;
+        }
+
+        if (listed === 0) return;
+
+        const ranges = [{ beforeSignature: start, untilSignature: splits[0]?.first || null }];
+        splits.forEach((split, i) => ranges.push({ beforeSignature: split.last, untilSignature: splits[i + 1]?.first || null }));
+        await database.saveScanRanges(operator, ranges);
+
+        // Upward scans continue from the newest transaction seen when the first scan began
+        if (!checkpoint?.newestSignature && newest) {
+            await database.updateCheckpoint({
+                operator,
+                newestSignature: newest.signature,
+                newestSlot: newest.slot,
+                scanStatus: 'scanning'
+            });
+        }
+
+        console.log(`${this.logPrefix} ${listed} transactions split into ${ranges.length} ranges (${DISCOVERY_CONCURRENCY} in parallel).`);
+    }
+
+    /**
+     * Crawls one range page by page. Accounts are saved before the range cursor moves past them.
+     * A failed range stays pending and resumes from its cursor on the next scan.
+     */
+    private async crawlRange(range: database.ScanRange, progress: { processed: number; limit: number }): Promise<void> {
+        const operator = this.operatorAddress.toBase58();
+
+        try {
+            while (progress.processed < progress.limit) {
+                const txs = await this.heliusClient.getTransactionHistory(operator, {
+                    limit: 100,
+                    before: range.cursorSignature || range.beforeSignature || undefined,
+                    until: range.untilSignature || undefined,
+                    connection: this.connection
+                });
+                if (txs.length === 0) {
+                    range.status = 'done';
+                    await database.updateScanRange(range);
+                    break;
+                }
+
+                const foundAccounts: DiscoveredAccount[] = [];
+                for (const tx of txs) {
+                    foundAccounts.push(...this.processTransaction(tx));
+
+                    // Save fee immediately (it's cheap)
+                    if (tx.feePayer === operator) {
+                        await database.addOperatorFee(tx.signature, operator, tx.fee, (tx.timestamp || 0) * 1000, tx.type, tx.slot);
+                    }
+                }
+                await this.saveAccounts(foundAccounts);
+                await this.trackAuthorityChanges(txs);
+
+                range.cursorSignature = txs[txs.length - 1].signature;
+                range.cursorSlot = txs[txs.length - 1].slot;
+                range.processed += txs.length;
+                await database.updateScanRange(range);
+
+                const before = progress.processed;
+                progress.processed += txs.length;
+                if (Math.floor(progress.processed / 500) > Math.floor(before / 500)) {
+                    console.log(`${this.logPrefix} Processed ${progress.processed} txs downwards...`);
+                }
+            }
+
+            if (progress.processed >= progress.limit && range.status === 'pending') {
+                console.log(`${this.logPrefix} Hit scan limit of ${progress.limit} transactions. Range ${range.rangeId} paused.`);
+            }
+        } catch (e: any) {
+            console.error(`${this.logPrefix} Range ${range.rangeId} stopped: ${e.message}. It resumes on the next scan.`);
+        }
+    }
+
     /**
      * Continuous background update - fetches NEW and MISSING OLD history
      */
@@ -312,6 +583,7 @@ export class Discoverer {
                         await database.addOperatorFee(tx.signature, operator, tx.fee, (tx.timestamp || 0) * 1000, tx.type, tx.slot);
                     }
                 }
+                await this.trackAuthorityChanges(relevantTxs);
 
                 if (hitCheckpoint >= 0) break;
                 before = txs[txs.length - 1].signature;
@@ -357,14 +629,77 @@ export class Discoverer {
             }
         }
 
-        // 3. Downwards: If firstScanComplete is false, continue fetching old history
+        // 3. Downwards: If firstScanComplete is false, continue fetching old history (fullScan takes the scan slot itself)
         if (!checkpoint.firstScanComplete) {
+            ACTIVE_SCANS.delete(operator);
             await this.fullScan(limit).catch(e => console.error(`${this.logPrefix} Continued fullScan failed: ${e.message}`));
         }
 
         ACTIVE_SCANS.delete(operator);
     }
 
+    /**
+     * Records every token account SetAuthority in the transactions, then acts on the latest close authority
+     * of each account touched: untracked accounts handed to the operator are picked up, tracked accounts
+     * handed back re-enter verification, and tracked accounts whose authority moved elsewhere are locked.
+     */
+    async trackAuthorityChanges(txs: DiscoveryTransaction[]): Promise<void> {
+        const operator = this.operatorAddress.toBase58();
+        const changes = txs.flatMap(tx => parseAuthorityChanges(tx)).map(c => ({ ...c, operator }));
+        if (changes.length === 0) return;
+
+        await database.recordAuthorityChanges(changes);
+
+        const accounts = [...new Set(changes.filter(c => c.authorityType === 'closeAccount').map(c => c.account))];
+        if (accounts.length === 0) return;
+        // Only the program that owns an account can change its authorities
+        const accountTypes = new Map(changes.map(c => [c.account, c.type]));
+
+        const latest = await database.getLatestAuthorityChanges(operator, accounts, 'closeAccount');
+        const tracked = new Map((await database.getAccountsByPubkeys(operator, accounts)).map(a => [a.pubkey, a]));
+
+        const gained: DiscoveredAccount[] = [];
+        const updates: Parameters<typeof database.batchUpdateAccountMetadata>[0] = [];
+
+        for (const change of latest.values()) {
+            const account = tracked.get(change.account);
+            if (account && FINAL_STATUSES.has(account.status)) continue;
+
+            if (change.newAuthority === operator) {
+                if (!account) {
+                    // Owner and mint come from the on-chain account in saveAccounts
+                    gained.push({
+                        pubkey: change.account,
+                        userWallet: '',
+                        mint: '',
+                        type: accountTypes.get(change.account)!,
+                        rentPaid: 0,
+                        signature: change.signature,
+                        slot: change.slot,
+                        timestamp: change.timestamp,
+                        sponsorshipSource: 'SET_AUTHORITY',
+                        memo: ''
+                    });
+                } else if (account.status === 'locked') {
+                    // Back under the operator: the next refresh re-verifies it
+                    updates.push({ pubkey: account.pubkey, status: 'active' });
+                }
+            } else if (account && account.statusReason !== authorityMovedReason(change.newAuthority)) {
+                updates.push({ pubkey: account.pubkey, status: 'locked', statusReason: authorityMovedReason(change.newAuthority) });
+            }
+        }
+
+        if (gained.length > 0) {
+            console.log(`${this.logPrefix} Close authority handed to the operator for ${gained.length} untracked accounts.`);
+            await this.saveAccounts(gained);
+        }
+        if (updates.length > 0) {
+            const locked = updates.filter(u => u.status === 'locked').length;
+            if (locked > 0) console.log(`${this.logPrefix} Close authority moved away from ${locked} tracked accounts. Locked.`);
+            await database.batchUpdateAccountMetadata(updates);
+        }
+    }
+
     /**
      * Verify status of existing 'active' accounts
      */
@@ -407,8 +742,8 @@ export class Discoverer {
                 status = 'closed';
             } else if (res.canReclaim) {
                 status = 'reclaimable';
-            } else if (res.reason === 'authority_mismatch') {
-                status = 'locked';
+            } else if (res.status === 'locked' || res.status === 'frozen' || res.status === 'native' || res.status === 'uninitialized') {
+                status = res.status;
             }
 
             if (status) {
@@ -416,7 +751,8 @@ export class Discoverer {
                     pubkey: res.pubkey,
                     mint: res.mint,
                     userWallet: res.userWallet,
-                    status
+                    status,
+                    statusReason: status !== 'reclaimable' && status !== 'closed' ? res.reason : undefined
                 };
 
                 // Safety: If it's closed or reclaimable, mark the closedAt timestamp (for Cool-Down)
@@ -448,7 +784,11 @@ export class Discoverer {
         return { hasMore: active.length === limit, updated: updates.length };
     }
 
-    private processTransaction(tx: DiscoveryTransaction): DiscoveredAccount[] {
+    /**
+     * Accounts the operator sponsored in one transaction. Pure: no RPC or database access, which also
+     * lets scripts/check-alt-fixtures.ts replay recorded transactions through it.
+     */
+    processTransaction(tx: DiscoveryTransaction): DiscoveredAccount[] {
         const operatorStr = this.operatorAddress.toBase58();
         const found: DiscoveredAccount[] = [];
 
@@ -461,14 +801,15 @@ export class Discoverer {
             return found;
         }
 
+        const instructions = flattenInstructions(tx);
+
         for (const accData of tx.accountData || []) {
             const acc = accData.account;
             const balanceChange = accData.nativeBalanceChange;
 
-            // DYNAMIC RENT CHECK (NO GUESSSWORK)
-            const rent = this.cachedRent || 2039280; // Fallback to classic rent if not cached
-            const isRentMatch = Math.abs(balanceChange - rent) < 100;
-            if (!isRentMatch) continue;
+            // DYNAMIC RENT CHECK (NO GUESSSWORK): the funded amount must be the rent for a real token account size
+            const accountSize = this.matchTokenAccountSize(balanceChange, instructions);
+            if (accountSize === null) continue;
 
             if (acc === operatorStr || SYSTEM_ADDRESSES.has(acc)) continue;
 
@@ -478,18 +819,12 @@ export class Discoverer {
             let userWallet = '';
             let mint = '';
 
-            for (const ix of tx.instructions || []) {
-                // Check multiple creation patterns (Classic ATA and generic InitializeAccount)
-                if ((ix.programId === ASSOCIATED_TOKEN_PROGRAM_ID || ix.programId === TOKEN_PROGRAM_ID || ix.programId === TOKEN_2022_PROGRAM_ID)) {
-                    const accounts = ix.accounts || [];
-                    // Pattern for CreateAssociatedTokenAccount: [payer, ata, owner, mint, system, token...]
-                    if (ix.programId === ASSOCIATED_TOKEN_PROGRAM_ID && accounts.length >= 4 && accounts[1] === acc) {
-                        userWallet = accounts[2];
-                        mint = accounts[3];
-                        type = (accounts[5] === TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'token';
-                        break;
-                    }
-                }
+            // Creation patterns anywhere in the call tree, including ATAs a dApp program created through CPI
+            const resolved = resolveTokenAccount(acc, instructions);
+            if (resolved) {
+                type = resolved.type;
+                userWallet = resolved.userWallet;
+                mint = resolved.mint;
             }
 
             // Secondary search via token balance changes (especially for Standard Mode/SET_AUTHORITY)
@@ -503,6 +838,9 @@ export class Discoverer {
                 }
             }
 
+            // Only Token-2022 accounts (with extensions) are larger than 165 bytes
+            if (accountSize > TOKEN_ACCOUNT_SIZE) type = 'token-2022';
+
             if (!userWallet) {
                 // If we didn't find the ATA instruction, look for the most likely owner (the only other non-system account)
                 const candidate = tx.accountData?.find(a =>
@@ -532,12 +870,34 @@ export class Discoverer {
         return found;
     }
 
+    /**
+     * Data size of the token account a rent deposit pays for, or null if it matches none.
+     * Sizes above 165 bytes are only accepted when the transaction involves Token-2022.
+     */
+    private matchTokenAccountSize(lamports: number, instructions: DiscoveryInstruction[]): number | null {
+        const baseRent = this.cachedRent || 2039280; // Fallback to classic rent if not cached
+        const rentPerByte = baseRent / (ACCOUNT_STORAGE_OVERHEAD + TOKEN_ACCOUNT_SIZE);
+        const size = Math.round(lamports / rentPerByte) - ACCOUNT_STORAGE_OVERHEAD;
+        const rentForSize = Math.round((ACCOUNT_STORAGE_OVERHEAD + size) * rentPerByte);
+
+        if (Math.abs(lamports - rentForSize) >= 100) return null;
+        if (size === TOKEN_ACCOUNT_SIZE) return size;
+
+        const usesToken2022 = instructions.some(ix =>
+            ix.programId === TOKEN_2022_PROGRAM_ID || (ix.accounts || []).includes(TOKEN_2022_PROGRAM_ID)
+        );
+        if (usesToken2022 && size > TOKEN_ACCOUNT_SIZE && size <= MAX_TOKEN_2022_ACCOUNT_SIZE) return size;
+
+        return null;
+    }
+
     private async saveAccounts(accounts: DiscoveredAccount[]): Promise<void> {
         if (accounts.length === 0) return;
         const operator = this.operatorAddress.toBase58();
 
         const analyzed = await this.analyzer.analyzeAccounts(accounts);
-        const verified = analyzed.filter(a => a.canReclaim || a.reason === 'authority_mismatch');
+        // Zero-balance accounts we can close, plus those blocked by authority or account state
+        const verified = analyzed.filter(a => a.canReclaim || (a.status !== undefined && a.status !== 'reclaimable'));
 
         if (verified.length === 0) return;
 
@@ -557,7 +917,8 @@ export class Discoverer {
                 initialTimestamp: original?.timestamp || Date.now(),
                 sponsorshipSource: original?.sponsorshipSource || 'UNKNOWN',
                 memo: original?.memo || '',
-                status: a.canReclaim ? 'reclaimable' : 'locked',
+                status: a.canReclaim ? 'reclaimable' : a.status || 'locked',
+                statusReason: a.canReclaim ? undefined : a.reason,
                 // Safety: Mark closedAt if reclaimable
                 closedAt: a.canReclaim ? Date.now() : undefined
             };
@@ -0,0 +1,78 @@
+/**
+ * Dry-Run Preview
+ *
+ * What a reclaim pass would do, collected by a dry-run Reclaimer instead of sending transactions
+ * or writing account statuses: the closes, the simulated fees per transaction and every status change.
+ */
+import fs from 'fs';
+
+export interface DryRunBatch {
+    accounts: string[];
+    lamports: number;
+    feeLamports: number;
+    priorityFeeLamports: number;
+    computeUnitPriceMicroLamports: number;
+    // From simulation, absent when the simulation was unavailable
+    unitsConsumed?: number;
+}
+
+export interface DryRunStatusChange {
+    pubkey: string;
+    status: string;
+    reason?: string;
+}
+
+export interface DryRunReport {
+    operator: string;
+    destination: string;
+    generatedAt: string;
+    closes: { pubkey: string; lamports: number }[];
+    batches: DryRunBatch[];
+    // Batches the profitability gate or the circuit breaker would not send
+    held: { accounts: string[]; lamports: number; reason: string }[];
+    statusChanges: DryRunStatusChange[];
+}
+
+export function createDryRunReport(operator: string, destination: string): DryRunReport {
+    return {
+        operator,
+        destination,
+        generatedAt: new Date().toISOString(),
+        closes: [],
+        batches: [],
+        held: [],
+        statusChanges: []
+    };
+}
+
+export function printDryRunReport(report: DryRunReport): void {
+    const lamports = report.closes.reduce((sum, c) => sum + c.lamports, 0);
+    const fees = report.batches.reduce((sum, b) => sum + b.feeLamports, 0);
+
+    console.log(`\n🔍 DRY RUN PREVIEW for ${report.operator}`);
+    console.log(`   Destination: ${report.destination}`);
+    console.log(`   Would close: ${report.closes.length} accounts in ${report.batches.length} transactions`);
+    console.log(`   Expected:    ${(lamports / 1e9).toFixed(6)} SOL`);
+    console.log(`   Fees:        ${(fees / 1e9).toFixed(6)} SOL`);
+    console.log(`   Net:         ${((lamports - fees) / 1e9).toFixed(6)} SOL`);
+
+    report.batches.forEach((b, i) => {
+        const units = b.unitsConsumed !== undefined ? `${b.unitsConsumed} CU` : 'CU unknown';
+        console.log(`   [tx ${i + 1}] ${b.accounts.length} accounts | ${(b.lamports / 1e9).toFixed(6)} SOL | fee ${b.feeLamports} lamports (${b.computeUnitPriceMicroLamports} µL/CU, ${units})`);
+    });
+
+    for (const h of report.held) {
+        console.log(`   [held] ${h.accounts.length} accounts (${(h.lamports / 1e9).toFixed(6)} SOL): ${h.reason}`);
+    }
+
+    if (report.statusChanges.length > 0) {
+        console.log(`   Status changes (${report.statusChanges.length}):`);
+        for (const change of report.statusChanges) {
+            console.log(`     ${change.pubkey} -> ${change.status}${change.reason ? ` (${change.reason})` : ''}`);
+        }
+    }
+}
+
+export function saveDryRunReports(file: string, reports: DryRunReport[]): void {
+    fs.writeFileSync(file, JSON.stringify(reports, null, 2));
+}
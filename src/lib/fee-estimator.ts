@@ -0,0 +1,100 @@
+import { Connection, PublicKey, TransactionInstruction, ComputeBudgetProgram } from '@solana/web3.js';
+
+// 'dynamic' reads getRecentPrioritizationFees, 'fixed' always uses PRIORITY_FEE_MICRO_LAMPORTS
+const PRIORITY_FEE_MODE = process.env.PRIORITY_FEE_MODE === 'fixed' ? 'fixed' : 'dynamic';
+// Used in fixed mode and whenever the RPC has no fee data
+const PRIORITY_FEE_MICRO_LAMPORTS = parseInt(process.env.PRIORITY_FEE_MICRO_LAMPORTS || '10000');
+const PRIORITY_FEE_PERCENTILE = parseFloat(process.env.PRIORITY_FEE_PERCENTILE || '75');
+// Hard ceiling, never exceeded even on resubmission
+const PRIORITY_FEE_MAX_MICRO_LAMPORTS = parseInt(process.env.PRIORITY_FEE_MAX_MICRO_LAMPORTS || '1000000');
+// Fee multiplier applied per resubmission attempt
+const PRIORITY_FEE_RETRY_MULTIPLIER = parseFloat(process.env.PRIORITY_FEE_RETRY_MULTIPLIER || '1.5');
+
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_FEE_ACCOUNTS = 128;
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+/**
+ * Priority Fee Estimator
+ *
+ * Picks a percentile of recent prioritization fees paid for the writable accounts
+ * a transaction touches, clamped to a hard ceiling and raised on resubmission.
+ */
+export class FeeEstimator {
+    private connection: Connection;
+
+    constructor(connection: Connection) {
+        this.connection = connection;
+    }
+
+    /**
+     * Compute unit price (micro-lamports) for a transaction touching `accounts`
+     * @param attempt 0 for the first submission, incremented on every resubmission
+     */
+    async estimate(accounts: PublicKey[], attempt = 0): Promise<number> {
+        let base = PRIORITY_FEE_MICRO_LAMPORTS;
+
+        if (PRIORITY_FEE_MODE === 'dynamic') {
+            try {
+                base = await this.networkFee(accounts) ?? base;
+            } catch (e: any) {
+                console.warn(`[Fees] Prioritization fee lookup failed, using ${PRIORITY_FEE_MICRO_LAMPORTS}: ${e.message}`);
+            }
+        }
+
+        // A resubmission must outbid the attempt that did not land, even on an idle network
+        if (attempt > 0) {
+            base = Math.max(base, PRIORITY_FEE_MICRO_LAMPORTS) * Math.pow(PRIORITY_FEE_RETRY_MULTIPLIER, attempt);
+        }
+
+        return Math.min(Math.ceil(base), PRIORITY_FEE_MAX_MICRO_LAMPORTS);
+    }
+
+    /**
+     * What the network is paying right now: the configured percentile of recent fees for `accounts`,
+     * before any clamping and regardless of PRIORITY_FEE_MODE. Null when the RPC has no fee data.
+     */
+    async networkFee(accounts: PublicKey[]): Promise<number | null> {
+        const fees = await this.connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: accounts.slice(0, MAX_FEE_ACCOUNTS)
+        });
+        const values = fees.map(f => f.prioritizationFee).sort((a, b) => a - b);
+        return values.length > 0 ? percentile(values, PRIORITY_FEE_PERCENTILE) : null;
+    }
+}
+
+/**
+ * Writable, non-signer accounts referenced by a set of instructions
+ */
+export function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+    const seen = new Map<string, PublicKey>();
+    for (const ix of instructions) {
+        for (const key of ix.keys) {
+            if (key.isWritable && !key.isSigner) seen.set(key.pubkey.toBase58(), key.pubkey);
+        }
+    }
+    return Array.from(seen.values());
+}
+
+/**
+ * Lamports paid for priority at a given price and compute unit limit.
+ * Without an explicit limit the runtime budgets 200k CU per non-compute-budget instruction.
+ */
+export function priorityFeeLamports(microLamports: number, instructions: TransactionInstruction[], computeUnitLimit?: number): number {
+    const units = computeUnitLimit ?? Math.min(
+        instructions.filter(ix => !ix.programId.equals(ComputeBudgetProgram.programId)).length * DEFAULT_UNITS_PER_INSTRUCTION,
+        MAX_COMPUTE_UNITS
+    );
+    return Math.ceil((microLamports * units) / 1_000_000);
+}
+
+export function baseFeeLamports(signatures: number): number {
+    return signatures * BASE_FEE_LAMPORTS_PER_SIGNATURE;
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+    return sorted[index];
+}
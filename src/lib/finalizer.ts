@@ -0,0 +1,116 @@
+/**
+ * Reclaim Finality
+ *
+ * Reclaims are recorded as `reclaim_pending` once their transaction is confirmed. A later pass
+ * promotes them to `reclaimed` when the signature is finalized. A confirmed transaction can still
+ * be dropped by a fork: when the signature is gone and the account still exists on-chain, the
+ * reclaim is undone and the account goes back to `reclaimable`. Durable-nonce transactions (reclaim plans)
+ * can land late, so they are only undone once their nonce has advanced.
+ */
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getPendingReclaims, batchUpdateStatus, revertPendingReclaims, updateJournalStatus, getJournalEntry, JournalEntry } from './database';
+
+const STATUS_BATCH_SIZE = 256;
+const FETCH_BATCH_SIZE = 100;
+
+export interface FinalizeResult {
+    finalized: number;
+    reverted: number;
+    pending: number;
+}
+
+export async function finalizePendingReclaims(connection: Connection, operator: string): Promise<FinalizeResult> {
+    const result: FinalizeResult = { finalized: 0, reverted: 0, pending: 0 };
+    const pendingAccounts = await getPendingReclaims(operator);
+    if (pendingAccounts.length === 0) return result;
+
+    const bySignature = new Map<string, string[]>();
+    for (const { pubkey, reclaimSignature } of pendingAccounts) {
+        if (!bySignature.has(reclaimSignature)) bySignature.set(reclaimSignature, []);
+        bySignature.get(reclaimSignature)!.push(pubkey);
+    }
+
+    console.log(`[Finality] Checking ${bySignature.size} pending reclaim transactions (${pendingAccounts.length} accounts)...`);
+    const signatures = Array.from(bySignature.keys());
+    const missing: string[] = [];
+
+    for (let i = 0; i < signatures.length; i += STATUS_BATCH_SIZE) {
+        const batch = signatures.slice(i, i + STATUS_BATCH_SIZE);
+        const { value: statuses } = await connection.getSignatureStatuses(batch, { searchTransactionHistory: true });
+
+        for (let j = 0; j < batch.length; j++) {
+            const signature = batch[j];
+            const status = statuses[j];
+            const pubkeys = bySignature.get(signature)!;
+
+            if (status?.err) {
+                console.warn(`[Finality] ${signature.slice(0, 8)}... failed: ${JSON.stringify(status.err)}. Returning ${pubkeys.length} accounts to reclaimable.`);
+                await revertPendingReclaims(pubkeys, `Reclaim ${signature} failed: ${JSON.stringify(status.err)}`);
+                await updateJournalStatus(signature, 'failed', JSON.stringify(status.err));
+                result.reverted += pubkeys.length;
+            } else if (status?.confirmationStatus === 'finalized') {
+                await batchUpdateStatus(pubkeys, 'reclaimed');
+                await updateJournalStatus(signature, 'landed');
+                result.finalized += pubkeys.length;
+            } else if (!status) {
+                missing.push(signature);
+            } else {
+                result.pending += pubkeys.length;
+            }
+        }
+    }
+
+    // Unknown signature: dropped if the accounts are still there, otherwise not visible yet
+    for (const signature of missing) {
+        const pubkeys = bySignature.get(signature)!;
+
+        // A durable-nonce transaction (reclaim plan) can still land until its nonce advances
+        const entry = await getJournalEntry(signature);
+        const durable = !!entry?.nonceAccount;
+        if (durable && !(await isJournalEntryExpired(connection, entry!))) {
+            result.pending += pubkeys.length;
+            continue;
+        }
+
+        const alive: string[] = [];
+        for (let i = 0; i < pubkeys.length; i += FETCH_BATCH_SIZE) {
+            const batch = pubkeys.slice(i, i + FETCH_BATCH_SIZE);
+            const infos = await connection.getMultipleAccountsInfo(batch.map(pk => new PublicKey(pk)), 'finalized');
+            infos.forEach((info, k) => { if (info) alive.push(batch[k]); });
+        }
+
+        if (alive.length === pubkeys.length && durable) {
+            console.warn(`[Finality] ${signature.slice(0, 8)}... nonce advanced without it landing. Returning ${pubkeys.length} accounts to reclaimable.`);
+            await revertPendingReclaims(pubkeys, `Reclaim ${signature} expired: nonce advanced before it landed`);
+            await updateJournalStatus(signature, 'expired', 'Nonce advanced before landing');
+            result.reverted += pubkeys.length;
+        } else if (alive.length === pubkeys.length) {
+            console.warn(`[Finality] ${signature.slice(0, 8)}... was dropped. Returning ${pubkeys.length} accounts to reclaimable.`);
+            await revertPendingReclaims(pubkeys, `Reclaim ${signature} dropped before finalization`);
+            await updateJournalStatus(signature, 'failed', 'Dropped before finalization');
+            result.reverted += pubkeys.length;
+        } else {
+            result.pending += pubkeys.length;
+        }
+    }
+
+    console.log(`[Finality] Finalized: ${result.finalized} | Returned to reclaimable: ${result.reverted} | Still pending: ${result.pending}`);
+    return result;
+}
+
+/**
+ * Whether a journaled transaction can no longer land: its blockhash expired, or for a durable-nonce
+ * transaction, the nonce account has moved past the stored nonce value without this signature landing.
+ */
+export async function isJournalEntryExpired(connection: Connection, entry: JournalEntry, blockHeight?: number): Promise<boolean> {
+    if (!entry.nonceAccount) {
+        return (blockHeight ?? await connection.getBlockHeight('confirmed')) > entry.lastValidBlockHeight;
+    }
+
+    const nonce = await connection.getNonce(new PublicKey(entry.nonceAccount), 'confirmed');
+    if (nonce && nonce.nonce === entry.blockhash) return false;
+
+    // Landing the transaction itself advances the nonce
+    const { value: [status] } = await connection.getSignatureStatuses([entry.signature], { searchTransactionHistory: true });
+    return !status;
+}
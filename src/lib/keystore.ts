@@ -0,0 +1,178 @@
+/**
+ * Encrypted Operator Keystores
+ *
+ * A keystore is a JSON file holding the operator secret key encrypted with AES-256-GCM
+ * under a scrypt-derived key. The pubkey is stored in the clear so read-only commands
+ * (stats, activity, export) never need the passphrase.
+ *
+ * Passphrase sources, in order: KEYSTORE_PASSPHRASE, --passphrase-file / KEYSTORE_PASSPHRASE_FILE, interactive prompt.
+ */
+import { Keypair } from '@solana/web3.js';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+export const KEYSTORE_DIR = process.env.KEYSTORE_DIR || './keystores';
+const KEYSTORE_VERSION = 1;
+// scrypt cost: 2^17 iterations, ~128 MB of memory per derivation
+const SCRYPT_N = 1 << 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+export interface KeystoreFile {
+    version: number;
+    pubkey: string;
+    createdAt: string;
+    kdf: 'scrypt';
+    kdfParams: { n: number; r: number; p: number; salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
+export function isKeystoreFile(value: any): value is KeystoreFile {
+    return !!value && typeof value === 'object' && value.kdf === 'scrypt' && typeof value.ciphertext === 'string' && typeof value.pubkey === 'string';
+}
+
+async function deriveKey(passphrase: string, params: KeystoreFile['kdfParams']): Promise<Buffer> {
+    return scrypt(passphrase.normalize('NFKC'), Buffer.from(params.salt, 'hex'), 32, {
+        N: params.n,
+        r: params.r,
+        p: params.p,
+        maxmem: 256 * params.n * params.r
+    });
+}
+
+export async function encryptKeypair(keypair: Keypair, passphrase: string): Promise<KeystoreFile> {
+    if (passphrase.length < 8) {
+        throw new Error('[Keystore] Passphrase must be at least 8 characters');
+    }
+
+    const kdfParams = { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: crypto.randomBytes(32).toString('hex') };
+    const key = await deriveKey(passphrase, kdfParams);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.from(keypair.secretKey)), cipher.final()]);
+
+    return {
+        version: KEYSTORE_VERSION,
+        pubkey: keypair.publicKey.toBase58(),
+        createdAt: new Date().toISOString(),
+        kdf: 'scrypt',
+        kdfParams,
+        cipher: 'aes-256-gcm',
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex')
+    };
+}
+
+export async function decryptKeystore(keystore: KeystoreFile, passphrase: string): Promise<Keypair> {
+    const key = await deriveKey(passphrase, keystore.kdfParams);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(keystore.tag, 'hex'));
+
+    let secretKey: Buffer;
+    try {
+        secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]);
+    } catch {
+        throw new Error(`[Keystore] Wrong passphrase for ${keystore.pubkey.slice(0, 8)}...`);
+    }
+
+    const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+    secretKey.fill(0);
+    if (keypair.publicKey.toBase58() !== keystore.pubkey) {
+        throw new Error(`[Keystore] Decrypted key does not match keystore pubkey ${keystore.pubkey}`);
+    }
+    return keypair;
+}
+
+/**
+ * Re-encrypt under a new passphrase (fresh salt and IV)
+ */
+export async function rotateKeystorePassphrase(keystore: KeystoreFile, current: string, next: string): Promise<KeystoreFile> {
+    const keypair = await decryptKeystore(keystore, current);
+    return { ...(await encryptKeypair(keypair, next)), createdAt: keystore.createdAt };
+}
+
+export function readKeystore(filePath: string): KeystoreFile {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!isKeystoreFile(data)) {
+        throw new Error(`[Keystore] ${filePath} is not a keystore file`);
+    }
+    return data;
+}
+
+export function writeKeystore(filePath: string, keystore: KeystoreFile): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write then rename, so an interrupted rotation never leaves a truncated keystore
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, filePath);
+}
+
+export function keystorePathFor(pubkey: string, dir = KEYSTORE_DIR): string {
+    return path.join(dir, `${pubkey}.json`);
+}
+
+export function listKeystores(dir = KEYSTORE_DIR): Array<{ path: string; keystore: KeystoreFile }> {
+    if (!fs.existsSync(dir)) return [];
+
+    const found: Array<{ path: string; keystore: KeystoreFile }> = [];
+    for (const name of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+        const filePath = path.join(dir, name);
+        try {
+            found.push({ path: filePath, keystore: readKeystore(filePath) });
+        } catch {
+            // Not a keystore, ignore
+        }
+    }
+    return found;
+}
+
+/**
+ * Find the passphrase for a keystore from env, a passphrase file or the terminal
+ */
+export async function resolvePassphrase(label: string, options: { passphraseFile?: string } = {}): Promise<string> {
+    if (process.env.KEYSTORE_PASSPHRASE) {
+        return process.env.KEYSTORE_PASSPHRASE;
+    }
+
+    const passphraseFile = options.passphraseFile || process.env.KEYSTORE_PASSPHRASE_FILE;
+    if (passphraseFile) {
+        return fs.readFileSync(passphraseFile, 'utf-8').replace(/\r?\n$/, '');
+    }
+
+    if (!process.stdin.isTTY) {
+        throw new Error(`[Keystore] No passphrase for ${label}. Set KEYSTORE_PASSPHRASE, KEYSTORE_PASSPHRASE_FILE or run interactively.`);
+    }
+    return promptPassphrase(`🔑 Passphrase for ${label}: `);
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+export function promptPassphrase(question: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        // Keystrokes are echoed to a stream that discards them; only the question reaches the terminal
+        const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+        const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+        process.stdout.write(question);
+
+        rl.question('', answer => {
+            rl.close();
+            process.stdout.write('\n');
+            resolve(answer);
+        });
+        rl.on('SIGINT', () => {
+            rl.close();
+            reject(new Error('[Keystore] Passphrase prompt cancelled'));
+        });
+    });
+}
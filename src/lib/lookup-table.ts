@@ -0,0 +1,233 @@
+import {
+    Connection,
+    PublicKey,
+    Transaction,
+    AddressLookupTableAccount,
+    AddressLookupTableProgram,
+    ComputeBudgetProgram
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { getLookupTables, saveLookupTable, recordSentTransactionFee } from './database';
+import { Signer } from './signer';
+import { baseFeeLamports } from './fee-estimator';
+import { fetchTransactionOutcome } from './tx-outcome';
+
+const LOOKUP_TABLE_MAX_ADDRESSES = 256;
+const EXTEND_CHUNK_SIZE = 20;
+// A deactivated table can only be closed once its deactivation slot has left the SlotHashes sysvar
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+// Table header before the address list
+const LOOKUP_TABLE_META_SIZE = 56;
+// Operator, both token programs and the compute budget program
+const SEED_ADDRESS_COUNT = 4;
+
+/**
+ * Operator Address Lookup Table Manager
+ *
+ * Keeps one operator-owned lookup table holding the operator, the token program IDs
+ * and the accounts targeted by upcoming reclaims, so v0 transactions can reference
+ * them with 1-byte indexes instead of 32-byte keys.
+ *
+ * Lifecycle: active -> full -> deactivating -> closed (rent returned to the operator)
+ */
+export class LookupTableManager {
+    private connection: Connection;
+    private authority: Signer;
+    private operator: string;
+    private logPrefix: string;
+    private retired = false;
+
+    constructor(connection: Connection, authority: Signer) {
+        this.connection = connection;
+        this.authority = authority;
+        this.operator = authority.publicKey.toBase58();
+        this.logPrefix = `[LookupTable:${this.operator.slice(0, 6)}...]`;
+    }
+
+    /**
+     * Ensure the active table contains every target and that the new entries are usable.
+     */
+    async prepare(targets: PublicKey[]): Promise<AddressLookupTableAccount> {
+        if (!this.retired) {
+            this.retired = true;
+            await this.retireTables().catch(e => console.warn(`${this.logPrefix} Retire pass failed: ${e.message}`));
+        }
+
+        let table = await this.loadActiveTable();
+        const known = new Set(table.state.addresses.map(a => a.toBase58()));
+        const missing = Array.from(new Set(targets.map(t => t.toBase58())))
+            .filter(t => !known.has(t))
+            .map(t => new PublicKey(t));
+
+        if (missing.length === 0) return table;
+
+        if (table.state.addresses.length + missing.length > LOOKUP_TABLE_MAX_ADDRESSES) {
+            console.log(`${this.logPrefix} Table ${table.key.toBase58().slice(0, 8)}... is full. Rotating.`);
+            await saveLookupTable(table.key.toBase58(), this.operator, 'full');
+            table = await this.createTable();
+        }
+
+        for (let i = 0; i < missing.length; i += EXTEND_CHUNK_SIZE) {
+            const chunk = missing.slice(i, i + EXTEND_CHUNK_SIZE);
+            await this.send(new Transaction().add(AddressLookupTableProgram.extendLookupTable({
+                lookupTable: table.key,
+                authority: this.authority.publicKey,
+                payer: this.authority.publicKey,
+                addresses: chunk
+            })));
+        }
+
+        return this.waitForWarmup(table.key);
+    }
+
+    /**
+     * Lamports `prepare(targets)` would spend: fees of the create and extend transactions plus the rent
+     * locked in new entries. The rent comes back when the table is closed, but only after a full rotation.
+     */
+    async estimateCost(targets: PublicKey[]): Promise<number> {
+        const [record] = await getLookupTables(this.operator, 'active');
+        const { value } = record ? await this.connection.getAddressLookupTable(new PublicKey(record.address)) : { value: null };
+        const table = value && value.isActive() ? value : null;
+
+        const known = new Set(table?.state.addresses.map(a => a.toBase58()) || []);
+        const missing = new Set(targets.map(t => t.toBase58()).filter(t => !known.has(t))).size;
+        if (table && missing === 0) return 0;
+
+        let fees = Math.ceil(missing / EXTEND_CHUNK_SIZE) * baseFeeLamports(1);
+        let before = 0;
+        let after: number;
+        if (table && table.state.addresses.length + missing <= LOOKUP_TABLE_MAX_ADDRESSES) {
+            before = table.state.addresses.length;
+            after = before + missing;
+        } else {
+            // New table: one create transaction holding the seed addresses
+            fees += baseFeeLamports(1);
+            after = SEED_ADDRESS_COUNT + missing;
+        }
+
+        const rentBefore = table && before > 0 ? await this.connection.getMinimumBalanceForRentExemption(LOOKUP_TABLE_META_SIZE + before * 32) : 0;
+        const rentAfter = await this.connection.getMinimumBalanceForRentExemption(LOOKUP_TABLE_META_SIZE + after * 32);
+        return fees + rentAfter - rentBefore;
+    }
+
+    /**
+     * Deactivate full tables and close the ones whose cool-down has passed
+     */
+    async retireTables(): Promise<void> {
+        const currentSlot = await this.connection.getSlot('confirmed');
+
+        for (const record of await getLookupTables(this.operator, 'full')) {
+            const key = new PublicKey(record.address);
+            await this.send(new Transaction().add(AddressLookupTableProgram.deactivateLookupTable({
+                lookupTable: key,
+                authority: this.authority.publicKey
+            })));
+            await saveLookupTable(record.address, this.operator, 'deactivating');
+            console.log(`${this.logPrefix} Deactivated full table ${record.address.slice(0, 8)}...`);
+        }
+
+        for (const record of await getLookupTables(this.operator, 'deactivating')) {
+            const key = new PublicKey(record.address);
+            const { value } = await this.connection.getAddressLookupTable(key);
+            if (!value) {
+                await saveLookupTable(record.address, this.operator, 'closed');
+                continue;
+            }
+
+            const deactivationSlot = Number(value.state.deactivationSlot);
+            if (currentSlot <= deactivationSlot + DEACTIVATION_COOLDOWN_SLOTS) continue;
+
+            await this.send(new Transaction().add(AddressLookupTableProgram.closeLookupTable({
+                lookupTable: key,
+                authority: this.authority.publicKey,
+                recipient: this.authority.publicKey
+            })));
+            await saveLookupTable(record.address, this.operator, 'closed');
+            console.log(`${this.logPrefix} Closed table ${record.address.slice(0, 8)}... (rent returned)`);
+        }
+    }
+
+    private async loadActiveTable(): Promise<AddressLookupTableAccount> {
+        const [record] = await getLookupTables(this.operator, 'active');
+        if (record) {
+            const { value } = await this.connection.getAddressLookupTable(new PublicKey(record.address));
+            if (value && value.isActive()) return value;
+            // Table vanished or was deactivated outside of KoraScan
+            await saveLookupTable(record.address, this.operator, value ? 'deactivating' : 'closed');
+        }
+        return this.createTable();
+    }
+
+    /**
+     * Create a new table seeded with the addresses every reclaim references
+     */
+    private async createTable(): Promise<AddressLookupTableAccount> {
+        const recentSlot = await this.connection.getSlot('finalized');
+        const [createIx, tableKey] = AddressLookupTableProgram.createLookupTable({
+            authority: this.authority.publicKey,
+            payer: this.authority.publicKey,
+            recentSlot
+        });
+
+        const extendIx = AddressLookupTableProgram.extendLookupTable({
+            lookupTable: tableKey,
+            authority: this.authority.publicKey,
+            payer: this.authority.publicKey,
+            addresses: [
+                this.authority.publicKey,
+                TOKEN_PROGRAM_ID,
+                TOKEN_2022_PROGRAM_ID,
+                ComputeBudgetProgram.programId
+            ]
+        });
+
+        await this.send(new Transaction().add(createIx, extendIx));
+        await saveLookupTable(tableKey.toBase58(), this.operator, 'active');
+        console.log(`${this.logPrefix} Created lookup table ${tableKey.toBase58()}`);
+
+        return this.waitForWarmup(tableKey);
+    }
+
+    /**
+     * Entries are only usable in slots after the one they were added in
+     */
+    private async waitForWarmup(tableKey: PublicKey): Promise<AddressLookupTableAccount> {
+        for (let attempt = 0; attempt < 30; attempt++) {
+            const { value } = await this.connection.getAddressLookupTable(tableKey, { commitment: 'confirmed' });
+            if (value) {
+                const slot = await this.connection.getSlot('confirmed');
+                if (slot > Number(value.state.lastExtendedSlot)) return value;
+            }
+            await new Promise(r => setTimeout(r, 400));
+        }
+        throw new Error(`${this.logPrefix} Lookup table ${tableKey.toBase58()} did not warm up in time`);
+    }
+
+    private async send(tx: Transaction): Promise<string> {
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+        tx.recentBlockhash = blockhash;
+        tx.feePayer = this.authority.publicKey;
+
+        const signed = await this.authority.signTransaction(tx);
+        const signature = await this.connection.sendRawTransaction(signed.serialize());
+        const confirmation = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        if (confirmation.value.err) {
+            throw new Error(`${this.logPrefix} Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+
+        // Table upkeep is part of what reclaiming costs the operator
+        const outcome = await fetchTransactionOutcome(this.connection, signature);
+        await recordSentTransactionFee({
+            signature,
+            operator: this.operator,
+            feeLamports: outcome?.feeLamports ?? baseFeeLamports(signed.signatures.length),
+            priorityFeeMicroLamports: outcome?.computeUnitPriceMicroLamports ?? 0,
+            priorityFeeLamports: outcome?.priorityFeeLamports ?? 0,
+            timestamp: Date.now(),
+            txType: 'LOOKUP_TABLE',
+            slot: outcome?.slot ?? confirmation.context.slot
+        }).catch(e => console.warn(`${this.logPrefix} Failed to record fee for ${signature}: ${e.message}`));
+
+        return signature;
+    }
+}
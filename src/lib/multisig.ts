@@ -0,0 +1,76 @@
+/**
+ * SPL Token Multisig Close Authorities
+ *
+ * Some sponsored accounts use an SPL Token multisig (M of N) as close authority instead of the operator.
+ * The operator can close them when it is one of the N signers and enough co-signers are configured.
+ */
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MULTISIG_SIZE, unpackMultisig, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { Signer } from './signer';
+
+export interface MultisigInfo {
+    address: PublicKey;
+    programId: PublicKey;
+    m: number;
+    signers: PublicKey[];
+}
+
+/**
+ * Fetch and decode the addresses that are SPL Token multisigs. Anything else is left out of the map.
+ */
+export async function fetchMultisigs(connection: Connection, addresses: PublicKey[]): Promise<Map<string, MultisigInfo>> {
+    const found = new Map<string, MultisigInfo>();
+    const BATCH_SIZE = 100;
+
+    for (let i = 0; i < addresses.length; i += BATCH_SIZE) {
+        const batch = addresses.slice(i, i + BATCH_SIZE);
+        const infos = await connection.getMultipleAccountsInfo(batch);
+
+        infos.forEach((info, j) => {
+            if (!info || info.data.length !== MULTISIG_SIZE) return;
+            const programId = info.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID
+                : info.owner.equals(TOKEN_PROGRAM_ID) ? TOKEN_PROGRAM_ID : null;
+            if (!programId) return;
+
+            try {
+                const multisig = unpackMultisig(batch[j], info, programId);
+                if (!multisig.isInitialized) return;
+
+                const signers = [
+                    multisig.signer1, multisig.signer2, multisig.signer3, multisig.signer4,
+                    multisig.signer5, multisig.signer6, multisig.signer7, multisig.signer8,
+                    multisig.signer9, multisig.signer10, multisig.signer11
+                ].slice(0, multisig.n);
+
+                found.set(batch[j].toBase58(), { address: batch[j], programId, m: multisig.m, signers });
+            } catch {
+                // Not a valid multisig
+            }
+        });
+    }
+
+    return found;
+}
+
+export function isMultisigMember(multisig: MultisigInfo, key: PublicKey): boolean {
+    return multisig.signers.some(s => s.equals(key));
+}
+
+/**
+ * Pick M signers for the multisig from the operator plus the configured co-signers.
+ * Returns null when fewer than M are available.
+ */
+export function selectMultisigSigners(multisig: MultisigInfo, operator: Signer, coSigners: Signer[]): Signer[] | null {
+    const selected: Signer[] = [];
+    const used = new Set<string>();
+
+    for (const candidate of [operator, ...coSigners]) {
+        const key = candidate.publicKey.toBase58();
+        if (used.has(key) || !isMultisigMember(multisig, candidate.publicKey)) continue;
+        used.add(key);
+        selected.push(candidate);
+        if (selected.length === multisig.m) return selected;
+    }
+
+    return null;
+}
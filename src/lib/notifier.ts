@@ -40,3 +40,46 @@ export async function sendNotification(
         console.error(`[Notifier] Failed to send Discord notification: ${e.message}`);
     }
 }
+
+export async function sendSafetyAlert(
+    operator: string,
+    rule: string,
+    detail: string
+): Promise<void> {
+    const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
+    if (!webhookUrl) return;
+
+    try {
+        const payload = {
+            embeds: [{
+                title: "🚨 Circuit Breaker Tripped",
+                description: "All reclaims for this operator are blocked until `safety reset` is run.",
+                color: 15548997, // Red
+                fields: [
+                    {
+                        name: "Operator",
+                        value: operator,
+                    },
+                    {
+                        name: "Rule",
+                        value: rule,
+                        inline: true
+                    },
+                    {
+                        name: "Detail",
+                        value: detail
+                    }
+                ],
+                timestamp: new Date().toISOString()
+            }]
+        };
+
+        await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+        });
+    } catch (e: any) {
+        console.error(`[Notifier] Failed to send Discord safety alert: ${e.message}`);
+    }
+}
@@ -0,0 +1,517 @@
+/**
+ * Offline Reclaim Plans (cold signing)
+ *
+ * 1. `plan`            (online, no key)  - discovery + Analyzer, writes unsigned durable-nonce transactions
+ * 2. `sign-plan`       (offline)         - verifies the content hash and every instruction, then signs
+ * 3. `execute --plan`  (online, no key)  - re-verifies on-chain state, submits and updates sponsored_accounts
+ *
+ * Durable nonces keep the transactions valid for as long as the plan sits on the air-gapped machine.
+ * Each transaction consumes one nonce account whose authority is the operator.
+ */
+import {
+    Connection,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+    SystemProgram,
+    SystemInstruction,
+    ComputeBudgetProgram,
+    VersionedTransaction,
+    PACKET_DATA_SIZE
+} from '@solana/web3.js';
+import { createCloseAccountInstruction, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import crypto from 'crypto';
+import fs from 'fs';
+import bs58 from 'bs58';
+import { Analyzer, ReclaimableAccount, toAccountType } from './analyzer';
+import { FeeEstimator, getWritableAccounts, priorityFeeLamports, baseFeeLamports } from './fee-estimator';
+import { SponsoredAccount, updateAccountStatus, batchUpdateAccountMetadata, recordSentTransactionFee, addJournalEntry, updateJournalStatus } from './database';
+import { Signer } from './signer';
+import { CircuitBreaker } from './circuit-breaker';
+import { fetchTransactionOutcome } from './tx-outcome';
+
+const PLAN_VERSION = 1;
+const TOKEN_CLOSE_ACCOUNT_IX = 9;
+const MAX_COMPUTE_UNITS = 1_400_000;
+const RECLAIM_CU_MARGIN = parseFloat(process.env.RECLAIM_CU_MARGIN || '0.1');
+
+export interface PlanAccount {
+    pubkey: string;
+    userWallet: string;
+    mint: string;
+    programId: string;
+    lamports: number;
+}
+
+export interface PlanTransaction {
+    nonceAccount: string;
+    nonce: string;
+    accounts: string[];
+    expectedLamports: number;
+    priorityFeeMicroLamports: number;
+    computeUnitLimit: number | null;
+    // Base64 wire transaction without signatures
+    unsignedTransaction: string;
+    // Base64 wire transaction, set by `sign-plan`
+    signedTransaction?: string;
+}
+
+export interface ReclaimPlan {
+    version: number;
+    operator: string;
+    // Close destination when it is not the operator
+    destination?: string;
+    createdAt: string;
+    accounts: PlanAccount[];
+    transactions: PlanTransaction[];
+    // sha256 over everything except the hash itself and signatures
+    hash: string;
+    signedAt?: string;
+}
+
+/**
+ * Build an unsigned plan for accounts that the Analyzer confirms are reclaimable right now
+ */
+export async function createReclaimPlan(
+    connection: Connection,
+    operator: PublicKey,
+    candidates: SponsoredAccount[],
+    nonceAccounts: PublicKey[],
+    destination: PublicKey = operator
+): Promise<ReclaimPlan> {
+    const analyzer = new Analyzer(connection, operator, true);
+    const analyzed = await analyzer.analyzeAccounts(candidates.map(a => ({
+        pubkey: a.pubkey,
+        userWallet: a.userWallet,
+        mint: a.mint,
+        type: toAccountType(a.type),
+        rentPaid: a.rentPaid,
+        signature: a.signature,
+        slot: a.slot,
+        timestamp: a.initialTimestamp || 0,
+        sponsorshipSource: a.sponsorshipSource || 'UNKNOWN',
+        memo: a.memo || ''
+    })));
+
+    // Multisig-owned accounts need co-signers and withheld fees need a harvest step:
+    // both are closed by the online Reclaimer instead
+    const unsupported = analyzed.filter(a => a.canReclaim && (a.multisig || a.withheldFees)).length;
+    if (unsupported > 0) {
+        console.log(`[Plan] Skipping ${unsupported} accounts with a multisig close authority or withheld transfer fees (not supported in plans).`);
+    }
+
+    const reclaimable = analyzed.filter(a => a.canReclaim && !a.multisig && !a.withheldFees);
+    console.log(`[Plan] ${reclaimable.length}/${candidates.length} accounts verified reclaimable on-chain.`);
+
+    const feeEstimator = new FeeEstimator(connection);
+    const transactions: PlanTransaction[] = [];
+    let remaining = reclaimable;
+
+    for (const nonceAccount of nonceAccounts) {
+        if (remaining.length === 0) break;
+
+        const nonceInfo = await connection.getNonce(nonceAccount, 'confirmed');
+        if (!nonceInfo) {
+            console.warn(`[Plan] ${nonceAccount.toBase58()} is not a nonce account. Skipping.`);
+            continue;
+        }
+        if (!nonceInfo.authorizedPubkey.equals(operator)) {
+            console.warn(`[Plan] Nonce ${nonceAccount.toBase58()} authority is ${nonceInfo.authorizedPubkey.toBase58()}, not the operator. Skipping.`);
+            continue;
+        }
+
+        const count = packPlanTransaction(operator, destination, nonceAccount, nonceInfo.nonce, remaining);
+        const batch = remaining.slice(0, count);
+        remaining = remaining.slice(count);
+
+        const closes = batch.map(a => closeInstruction(operator, destination, a));
+        const microLamports = await feeEstimator.estimate(getWritableAccounts(closes));
+        const computeUnitLimit = await simulateUnits(connection, operator, nonceAccount, nonceInfo.nonce, closes);
+
+        const tx = buildNonceTransaction(operator, nonceAccount, nonceInfo.nonce, closes, microLamports, computeUnitLimit ?? undefined);
+        transactions.push({
+            nonceAccount: nonceAccount.toBase58(),
+            nonce: nonceInfo.nonce,
+            accounts: batch.map(a => a.pubkey),
+            expectedLamports: batch.reduce((sum, a) => sum + a.lamports, 0),
+            priorityFeeMicroLamports: microLamports,
+            computeUnitLimit,
+            unsignedTransaction: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+        });
+    }
+
+    if (remaining.length > 0) {
+        console.warn(`[Plan] Not enough nonce accounts: ${remaining.length} accounts left out. Add more with --nonce-accounts.`);
+    }
+
+    const planned = new Set(transactions.flatMap(t => t.accounts));
+    const plan: ReclaimPlan = {
+        version: PLAN_VERSION,
+        operator: operator.toBase58(),
+        destination: destination.equals(operator) ? undefined : destination.toBase58(),
+        createdAt: new Date().toISOString(),
+        accounts: reclaimable.filter(a => planned.has(a.pubkey)).map(a => ({
+            pubkey: a.pubkey,
+            userWallet: a.userWallet,
+            mint: a.mint,
+            programId: a.type === 'token-2022' ? TOKEN_2022_PROGRAM_ID.toBase58() : TOKEN_PROGRAM_ID.toBase58(),
+            lamports: a.lamports
+        })),
+        transactions,
+        hash: ''
+    };
+    plan.hash = hashPlan(plan);
+
+    return plan;
+}
+
+/**
+ * Sign every transaction of a plan. Runs fully offline.
+ * Refuses plans whose hash does not match or that contain anything but nonce advance, compute budget and closes to the plan destination.
+ * The plan hash is not keyed, so the destination is checked against the one the signing machine expects, not taken from the file.
+ */
+export async function signReclaimPlan(plan: ReclaimPlan, signer: Signer, expectedDestination: PublicKey): Promise<ReclaimPlan> {
+    assertPlanIntegrity(plan);
+
+    if (plan.operator !== signer.publicKey.toBase58()) {
+        throw new Error(`[Plan] Plan is for operator ${plan.operator}, but the key is ${signer.publicKey.toBase58()}`);
+    }
+
+    const destination = plan.destination || plan.operator;
+    if (destination !== expectedDestination.toBase58()) {
+        throw new Error(`[Plan] Plan closes to ${destination}, but this signer expects ${expectedDestination.toBase58()}. Refusing.`);
+    }
+
+    const transactions: PlanTransaction[] = [];
+    for (const entry of plan.transactions) {
+        const tx = Transaction.from(Buffer.from(entry.unsignedTransaction, 'base64'));
+        assertPlanTransaction(tx, plan, entry);
+        const signed = await signer.signTransaction(tx);
+        transactions.push({ ...entry, signedTransaction: signed.serialize().toString('base64') });
+    }
+
+    return { ...plan, transactions, signedAt: new Date().toISOString() };
+}
+
+/**
+ * Submit a signed plan. Transactions whose accounts are no longer reclaimable, or whose nonce moved on, are skipped.
+ */
+export async function executeReclaimPlan(connection: Connection, plan: ReclaimPlan): Promise<{ success: number; failed: number; skipped: number; pending: number; sol: number }> {
+    assertPlanIntegrity(plan);
+
+    const operator = new PublicKey(plan.operator);
+    const analyzer = new Analyzer(connection, operator, true);
+    const accountsByKey = new Map(plan.accounts.map(a => [a.pubkey, a]));
+    const breaker = new CircuitBreaker(plan.operator);
+    let success = 0;
+    let failed = 0;
+    let skipped = 0;
+    let pending = 0;
+    let sol = 0;
+
+    const activeTrip = await breaker.getActiveTrip();
+    if (activeTrip) {
+        console.error(`[Safety] 🚨 Reclaims blocked by circuit breaker (${activeTrip.rule}): ${activeTrip.detail}. Run \`safety reset\` to resume.`);
+        return { success, failed, skipped: plan.accounts.length, pending, sol };
+    }
+
+    for (const entry of plan.transactions) {
+        const label = `[Plan] Tx ${entry.nonceAccount.slice(0, 8)}...`;
+
+        if (!entry.signedTransaction) {
+            console.warn(`${label} is not signed. Run sign-plan first.`);
+            skipped += entry.accounts.length;
+            continue;
+        }
+
+        const tx = Transaction.from(Buffer.from(entry.signedTransaction, 'base64'));
+        assertPlanTransaction(tx, plan, entry);
+        if (!tx.verifySignatures()) {
+            throw new Error(`${label} has an invalid signature`);
+        }
+
+        // Re-verify on-chain state: the signed transaction is all-or-nothing
+        const { value: nonceInfo, context } = await connection.getNonceAndContext(new PublicKey(entry.nonceAccount), 'confirmed');
+        if (!nonceInfo || nonceInfo.nonce !== entry.nonce) {
+            console.warn(`${label} nonce has advanced since planning. Skipping ${entry.accounts.length} accounts.`);
+            skipped += entry.accounts.length;
+            continue;
+        }
+
+        const current = await analyzer.analyzeAccounts(entry.accounts.map(pubkey => {
+            const acc = accountsByKey.get(pubkey)!;
+            return {
+                pubkey,
+                userWallet: acc.userWallet,
+                mint: acc.mint,
+                type: acc.programId === TOKEN_2022_PROGRAM_ID.toBase58() ? 'token-2022' : 'token',
+                rentPaid: acc.lamports,
+                signature: '',
+                slot: 0,
+                timestamp: 0,
+                sponsorshipSource: 'PLAN',
+                memo: ''
+            };
+        }));
+        const stale = entry.accounts.filter(pk => !current.find(c => c.pubkey === pk && c.canReclaim && !c.multisig && !c.withheldFees));
+        if (stale.length > 0) {
+            console.warn(`${label} ${stale.length} accounts are no longer reclaimable (${stale.map(s => s.slice(0, 8)).join(', ')}). Re-plan them.`);
+            skipped += entry.accounts.length;
+            continue;
+        }
+
+        // The transaction is all-or-nothing: one broken rule stops it and every later one
+        const infos = await connection.getMultipleAccountsInfo(entry.accounts.map(pk => new PublicKey(pk)));
+        const trip = await breaker.check(entry.accounts.map((pubkey, i) => ({
+            pubkey,
+            lamports: infos[i]?.lamports ?? 0,
+            dataLength: infos[i]?.data.length ?? 0
+        })));
+        if (trip) {
+            if (trip.account) {
+                await batchUpdateAccountMetadata([{ pubkey: trip.account, status: 'error', errorMessage: `Circuit Breaker Tripped: ${trip.detail}` }]);
+            }
+            const done = plan.transactions.indexOf(entry);
+            skipped += plan.transactions.slice(done).reduce((sum, t) => sum + t.accounts.length, 0);
+            break;
+        }
+
+        const signature = bs58.encode(tx.signature!);
+        const destination = plan.destination || plan.operator;
+
+        // Journal before sending so a timed-out or crashed run can still be settled
+        await addJournalEntry({
+            signature,
+            operator: plan.operator,
+            accounts: entry.accounts.map(pubkey => ({ pubkey, lamports: accountsByKey.get(pubkey)!.lamports })),
+            destination,
+            blockhash: entry.nonce,
+            // Durable nonces never expire by block height, only once the nonce account has advanced
+            lastValidBlockHeight: 0,
+            nonceAccount: entry.nonceAccount
+        });
+
+        try {
+            await connection.sendRawTransaction(tx.serialize(), { skipPreflight: false });
+        } catch (e: any) {
+            console.error(`${label} failed: ${e.message}`);
+            await updateJournalStatus(signature, 'failed', e.message);
+            await markPlanEntryFailed(entry, e.message);
+            failed += entry.accounts.length;
+            continue;
+        }
+
+        let confirmation;
+        try {
+            confirmation = await connection.confirmTransaction({
+                signature,
+                nonceAccountPubkey: new PublicKey(entry.nonceAccount),
+                nonceValue: entry.nonce,
+                minContextSlot: context.slot
+            }, 'confirmed');
+        } catch (e: any) {
+            // The close may still land: record it as pending and let the finalizer promote or revert it
+            console.warn(`${label} sent but not confirmed (${e.message}). Sig: ${signature} - leaving ${entry.accounts.length} accounts pending.`);
+            for (const pubkey of entry.accounts) {
+                await updateAccountStatus(pubkey, 'reclaim_pending', Date.now(), signature);
+                await batchUpdateAccountMetadata([{
+                    pubkey,
+                    reclaimedAmount: accountsByKey.get(pubkey)!.lamports,
+                    reclaimDestination: destination
+                }]);
+            }
+            pending += entry.accounts.length;
+            continue;
+        }
+
+        if (confirmation.value.err) {
+            const err = JSON.stringify(confirmation.value.err);
+            console.error(`${label} failed: Transaction ${signature} failed: ${err}`);
+            await updateJournalStatus(signature, 'failed', err);
+            await markPlanEntryFailed(entry, `Transaction ${signature} failed: ${err}`);
+            failed += entry.accounts.length;
+            continue;
+        }
+
+        // Exact amounts and fee from the landed transaction, planned values if the meta is unavailable
+        const outcome = await fetchTransactionOutcome(connection, signature);
+        const amounts = entry.accounts.map(pubkey => outcome?.deltas.get(pubkey) ?? accountsByKey.get(pubkey)!.lamports);
+        const reclaimed = amounts.reduce((sum, a) => sum + a, 0);
+
+        console.log(`${label} Success! Sig: ${signature} | Reclaimed: ${(reclaimed / 1e9).toFixed(4)} SOL`);
+        for (let i = 0; i < entry.accounts.length; i++) {
+            await updateAccountStatus(entry.accounts[i], 'reclaim_pending', Date.now(), signature);
+            await batchUpdateAccountMetadata([{
+                pubkey: entry.accounts[i],
+                reclaimedAmount: amounts[i],
+                reclaimDestination: destination
+            }]);
+        }
+        await updateJournalStatus(signature, 'landed');
+
+        const priorityLamports = outcome?.priorityFeeLamports
+            ?? priorityFeeLamports(entry.priorityFeeMicroLamports, tx.instructions, entry.computeUnitLimit ?? undefined);
+        await recordSentTransactionFee({
+            signature,
+            operator: plan.operator,
+            feeLamports: outcome?.feeLamports ?? baseFeeLamports(tx.signatures.length) + priorityLamports,
+            priorityFeeMicroLamports: entry.priorityFeeMicroLamports,
+            priorityFeeLamports: priorityLamports,
+            timestamp: Date.now(),
+            txType: 'RECLAIM_PLAN',
+            slot: outcome?.slot ?? confirmation.context.slot
+        }).catch(e => console.warn(`${label} Failed to record fee for ${signature}: ${e.message}`));
+
+        success += entry.accounts.length;
+        sol += reclaimed / 1e9;
+    }
+
+    return { success, failed, skipped, pending, sol };
+}
+
+async function markPlanEntryFailed(entry: PlanTransaction, message: string): Promise<void> {
+    await batchUpdateAccountMetadata(entry.accounts.map(pubkey => ({
+        pubkey,
+        status: 'error',
+        errorMessage: `Plan execution failed: ${message}`
+    })));
+}
+
+export function loadPlan(file: string): ReclaimPlan {
+    const plan = JSON.parse(fs.readFileSync(file, 'utf-8')) as ReclaimPlan;
+    if (plan.version !== PLAN_VERSION) {
+        throw new Error(`[Plan] Unsupported plan version ${plan.version}`);
+    }
+    return plan;
+}
+
+export function savePlan(file: string, plan: ReclaimPlan): void {
+    fs.writeFileSync(file, JSON.stringify(plan, null, 2));
+}
+
+export function hashPlan(plan: ReclaimPlan): string {
+    const content = {
+        version: plan.version,
+        operator: plan.operator,
+        ...(plan.destination ? { destination: plan.destination } : {}),
+        createdAt: plan.createdAt,
+        accounts: plan.accounts,
+        transactions: plan.transactions.map(t => ({
+            nonceAccount: t.nonceAccount,
+            nonce: t.nonce,
+            accounts: t.accounts,
+            expectedLamports: t.expectedLamports,
+            priorityFeeMicroLamports: t.priorityFeeMicroLamports,
+            computeUnitLimit: t.computeUnitLimit,
+            unsignedTransaction: t.unsignedTransaction
+        }))
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+function assertPlanIntegrity(plan: ReclaimPlan): void {
+    const expected = hashPlan(plan);
+    if (plan.hash !== expected) {
+        throw new Error(`[Plan] Content hash mismatch (file says ${plan.hash.slice(0, 12)}..., content is ${expected.slice(0, 12)}...). Refusing.`);
+    }
+}
+
+/**
+ * A plan transaction may only advance its nonce, set compute budget and close planned accounts to the plan destination
+ */
+function assertPlanTransaction(tx: Transaction, plan: ReclaimPlan, entry: PlanTransaction): void {
+    const unsigned = Transaction.from(Buffer.from(entry.unsignedTransaction, 'base64'));
+    if (!tx.serializeMessage().equals(unsigned.serializeMessage())) {
+        throw new Error(`[Plan] Transaction for nonce ${entry.nonceAccount} does not match the planned message`);
+    }
+
+    const operator = plan.operator;
+    if (tx.feePayer?.toBase58() !== operator) {
+        throw new Error(`[Plan] Fee payer is not the operator`);
+    }
+
+    const [advance, ...rest] = tx.instructions;
+    if (!advance || !advance.programId.equals(SystemProgram.programId) ||
+        SystemInstruction.decodeInstructionType(advance) !== 'AdvanceNonceAccount' ||
+        SystemInstruction.decodeNonceAdvance(advance).noncePubkey.toBase58() !== entry.nonceAccount) {
+        throw new Error(`[Plan] First instruction must advance nonce ${entry.nonceAccount}`);
+    }
+
+    const closed: string[] = [];
+    for (const ix of rest) {
+        if (ix.programId.equals(ComputeBudgetProgram.programId)) continue;
+
+        const isToken = ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID);
+        if (!isToken || ix.data[0] !== TOKEN_CLOSE_ACCOUNT_IX) {
+            throw new Error(`[Plan] Unexpected instruction for program ${ix.programId.toBase58()}`);
+        }
+        const destination = plan.destination || operator;
+        if (ix.keys[1].pubkey.toBase58() !== destination) {
+            throw new Error(`[Plan] Close destination ${ix.keys[1].pubkey.toBase58()} is not the plan destination ${destination}`);
+        }
+        closed.push(ix.keys[0].pubkey.toBase58());
+    }
+
+    if (closed.length !== entry.accounts.length || closed.some((pk, i) => pk !== entry.accounts[i])) {
+        throw new Error(`[Plan] Closed accounts do not match the plan entry for nonce ${entry.nonceAccount}`);
+    }
+}
+
+function closeInstruction(operator: PublicKey, destination: PublicKey, account: ReclaimableAccount): TransactionInstruction {
+    const programId = account.type === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    return createCloseAccountInstruction(new PublicKey(account.pubkey), destination, operator, [], programId);
+}
+
+function buildNonceTransaction(
+    operator: PublicKey,
+    nonceAccount: PublicKey,
+    nonce: string,
+    closes: TransactionInstruction[],
+    microLamports: number,
+    computeUnitLimit?: number
+): Transaction {
+    const tx = new Transaction({ feePayer: operator, recentBlockhash: nonce });
+    tx.add(SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: operator }));
+    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    if (computeUnitLimit) {
+        tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+    }
+    tx.add(...closes);
+    return tx;
+}
+
+/**
+ * How many of `accounts` fit in one nonce transaction
+ */
+function packPlanTransaction(operator: PublicKey, destination: PublicKey, nonceAccount: PublicKey, nonce: string, accounts: ReclaimableAccount[]): number {
+    let count = 1;
+    while (count < accounts.length) {
+        const closes = accounts.slice(0, count + 1).map(a => closeInstruction(operator, destination, a));
+        const tx = buildNonceTransaction(operator, nonceAccount, nonce, closes, 1, MAX_COMPUTE_UNITS);
+        // 1 byte signature count + one 64-byte signature (operator)
+        if (1 + 64 + tx.serializeMessage().length > PACKET_DATA_SIZE) break;
+        count++;
+    }
+    return count;
+}
+
+async function simulateUnits(
+    connection: Connection,
+    operator: PublicKey,
+    nonceAccount: PublicKey,
+    nonce: string,
+    closes: TransactionInstruction[]
+): Promise<number | null> {
+    try {
+        const tx = buildNonceTransaction(operator, nonceAccount, nonce, closes, 1, MAX_COMPUTE_UNITS);
+        const { value } = await connection.simulateTransaction(new VersionedTransaction(tx.compileMessage()), { sigVerify: false });
+        if (value.err || !value.unitsConsumed) {
+            console.warn(`[Plan] Simulation for nonce ${nonceAccount.toBase58().slice(0, 8)}... failed (${JSON.stringify(value.err)}). No compute limit set.`);
+            return null;
+        }
+        return Math.min(Math.ceil(value.unitsConsumed * (1 + RECLAIM_CU_MARGIN)), MAX_COMPUTE_UNITS);
+    } catch (e: any) {
+        console.warn(`[Plan] Simulation unavailable: ${e.message}`);
+        return null;
+    }
+}
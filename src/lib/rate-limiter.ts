@@ -0,0 +1,69 @@
+/**
+ * Adaptive Token Bucket
+ *
+ * Shared by every discovery request so parallel crawls stay under the provider's limit together.
+ * The refill rate halves on each 429 and climbs back towards the configured rate as requests succeed.
+ */
+
+// Rate regained per successful request after a throttle (requests/second)
+const RECOVERY_STEP = 0.1;
+
+export class RateLimiter {
+    private rate: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(private maxRate: number, private minRate = 1) {
+        if (!Number.isFinite(maxRate) || maxRate <= 0) {
+            throw new Error(`Invalid rate limit ${maxRate} (expected requests per second > 0)`);
+        }
+        this.minRate = Math.min(minRate, maxRate);
+        this.rate = maxRate;
+        this.tokens = this.capacity;
+    }
+
+    get currentRate(): number {
+        return this.rate;
+    }
+
+    /**
+     * Wait until a request may be sent.
+     */
+    async acquire(): Promise<void> {
+        while (true) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            const waitMs = Math.ceil((1 - this.tokens) / this.rate * 1000);
+            await new Promise(r => setTimeout(r, waitMs));
+        }
+    }
+
+    /**
+     * The provider answered 429: halve the rate and drop the burst.
+     */
+    throttle(): void {
+        this.refill();
+        this.rate = Math.max(this.minRate, this.rate / 2);
+        this.tokens = Math.min(this.tokens, 0);
+    }
+
+    recover(): void {
+        if (this.rate < this.maxRate) {
+            this.rate = Math.min(this.maxRate, this.rate + RECOVERY_STEP);
+        }
+    }
+
+    // Bucket holds one second of requests at the current rate, and always room for one request below 1 req/s
+    private get capacity(): number {
+        return Math.max(1, this.rate);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) / 1000 * this.rate);
+        this.lastRefill = now;
+    }
+}
@@ -1,54 +1,182 @@
 import {
     Connection,
-    Keypair,
-    Transaction,
     PublicKey,
-    sendAndConfirmTransaction,
     ComputeBudgetProgram,
     AccountInfo,
-    SystemProgram
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+    AddressLookupTableAccount,
+    PACKET_DATA_SIZE,
+    TransactionExpiredBlockheightExceededError
 } from '@solana/web3.js';
 import {
     createCloseAccountInstruction,
+    createHarvestWithheldTokensToMintInstruction,
     TOKEN_PROGRAM_ID,
     TOKEN_2022_PROGRAM_ID,
-    AccountLayout
+    AccountLayout,
+    ACCOUNT_SIZE
 } from '@solana/spl-token';
-import { updateAccountStatus, getReclaimableAccounts, batchUpdateAccountMetadata } from './database';
+import {
+    updateAccountStatus,
+    getReclaimableAccounts,
+    batchUpdateAccountMetadata,
+    recordSentTransactionFee,
+    addJournalEntry,
+    updateJournalStatus,
+    getPendingJournalEntries,
+    getAccountsByPubkeys,
+    batchUpsertAccounts,
+    getFeesPaidSince,
+    recordTreasuryTransfers,
+    JournalEntry,
+    ReclaimableFilter,
+    SponsoredAccount
+} from './database';
 import { sendNotification } from './notifier';
-
-const PRIORITY_FEE_MICRO_LAMPORTS = parseInt(process.env.PRIORITY_FEE_MICRO_LAMPORTS || '10000');
-const BATCH_SIZE = parseInt(process.env.RECLAIM_BATCH_SIZE || '15');
+import { LookupTableManager } from './lookup-table';
+import { FeeEstimator, getWritableAccounts, priorityFeeLamports, baseFeeLamports } from './fee-estimator';
+import { Signer } from './signer';
+import { MultisigInfo, fetchMultisigs, isMultisigMember, selectMultisigSigners } from './multisig';
+import { parseTokenAccountExtensions, getExtensionCloseBlocker } from './token-extensions';
+import { Analyzer, classifyAccountSafety, toAccountType } from './analyzer';
+import { CircuitBreaker } from './circuit-breaker';
+import { fetchTransactionOutcome, TransactionOutcome } from './tx-outcome';
+import { isJournalEntryExpired } from './finalizer';
+import { createDryRunReport, DryRunReport } from './dry-run';
+import { TreasurySplit, loadTreasurySplits, describeTreasuryConfig, planTreasurySweep, TREASURY_MIN_SOL, TREASURY_RESERVE_DAYS } from './treasury';
+import bs58 from 'bs58';
+
+// Optional hard cap on closes per transaction. Batches are otherwise sized from the serialized packet limit.
+const MAX_BATCH_SIZE = process.env.RECLAIM_BATCH_SIZE ? parseInt(process.env.RECLAIM_BATCH_SIZE) : 0;
+// 'v0' uses an operator-owned Address Lookup Table to pack more closes per transaction
+const RECLAIM_TX_VERSION = process.env.RECLAIM_TX_VERSION === 'legacy' ? 'legacy' : 'v0';
+// Runtime limit on accounts a single transaction may lock
+const MAX_TX_ACCOUNT_LOCKS = 64;
+// 'split' simulates failed batches and bisects them to isolate bad accounts, 'single' retries one-by-one
+const RECLAIM_FAILURE_MODE = process.env.RECLAIM_FAILURE_MODE === 'single' ? 'single' : 'split';
+// Resubmissions (with a raised priority fee) after a blockhash expires before confirmation
+const RECLAIM_MAX_RESUBMITS = parseInt(process.env.RECLAIM_MAX_RESUBMITS || '2');
+// Safety margin added on top of simulated compute unit consumption
+const RECLAIM_CU_MARGIN = parseFloat(process.env.RECLAIM_CU_MARGIN || '0.1');
+const MAX_COMPUTE_UNITS = 1_400_000;
+// SPL Token CloseAccount instruction discriminator
+const CLOSE_ACCOUNT_INSTRUCTION = 9;
 const TOKEN_PROGRAM_STR = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
 const TOKEN_2022_PROGRAM_STR = 'TokenzQdBNbAtYpYbt9UEHJR9YWYvNf2t8S77tB39L';
 
 // SAFETY CONFIGURATION
 // If not set, features are DISABLED.
 const RECLAIM_COOL_DOWN_DAYS = process.env.RECLAIM_COOL_DOWN_DAYS ? parseFloat(process.env.RECLAIM_COOL_DOWN_DAYS) : 0;
-const RECLAIM_CIRCUIT_BREAKER_SOL = process.env.RECLAIM_CIRCUIT_BREAKER_SOL ? parseFloat(process.env.RECLAIM_CIRCUIT_BREAKER_SOL) : 0;
-// Treasury Config
-const TREASURY_WALLET = process.env.TREASURY_WALLET; // Optional: Forward profits here
-const TREASURY_MIN_SOL = process.env.TREASURY_MIN_SOL ? parseFloat(process.env.TREASURY_MIN_SOL) : 0.5; // Min balance before sweeping
+// PROFITABILITY (IF ENABLED)
+// Minimum net profit per transaction (reclaimed rent minus base and priority fees)
+const RECLAIM_MIN_PROFIT_SOL = process.env.RECLAIM_MIN_PROFIT_SOL ? parseFloat(process.env.RECLAIM_MIN_PROFIT_SOL) : 0;
+// How long an account may be held back in an unprofitable batch before it is sent anyway (if it still breaks even)
+const RECLAIM_MAX_WAIT_HOURS = parseFloat(process.env.RECLAIM_MAX_WAIT_HOURS || '24');
+// Defer all reclaims while the network priority fee is above this (micro-lamports per CU)
+const RECLAIM_PRIORITY_FEE_CEILING = process.env.RECLAIM_PRIORITY_FEE_CEILING ? parseInt(process.env.RECLAIM_PRIORITY_FEE_CEILING) : 0;
 
 interface AccountWithInfo {
     pubkey: PublicKey;
     info: AccountInfo<Buffer>;
+    // Present when the close authority is a multisig: the signers gathered for it
+    multisig?: { info: MultisigInfo; signers: Signer[] };
+    // Token-2022 mint that withheld transfer fees are harvested to before the close
+    harvestMint?: PublicKey;
+}
+
+interface CloseInstructions {
+    instructions: TransactionInstruction[];
+    // Batch index of the account each instruction belongs to
+    owners: (number | null)[];
+}
+
+// Accounts a journaled transaction closes, with the lamports expected from each
+type JournalAccounts = JournalEntry['accounts'];
+
+type AccountUpdate = Parameters<typeof batchUpdateAccountMetadata>[0][number];
+
+interface SentTransaction {
+    signature: string;
+    // Meta of the landed transaction, null when the RPC did not return it
+    outcome: TransactionOutcome | null;
+}
+
+/**
+ * Which reclaimable accounts a pass may touch. Caps are applied after every other filter, oldest accounts first.
+ */
+export interface ReclaimSelection extends ReclaimableFilter {
+    maxAccounts?: number;
+    maxLamports?: number;
+}
+
+interface BatchResult {
+    success: number;
+    failed: number;
+    sol: number;
+}
+
+/**
+ * Thrown when a transaction fails in simulation, before anything is sent
+ */
+class SimulationFailure extends Error {
+    constructor(err: any, logs: string[]) {
+        super(describeProgramError(err, logs));
+        this.name = 'SimulationFailure';
+    }
+}
+
+/**
+ * Thrown by a targeted reclaim when some accounts are not tracked for the operator
+ */
+export class UntrackedAccountsError extends Error {
+    readonly accounts: string[];
+
+    constructor(operator: string, accounts: string[]) {
+        super(`${accounts.length} accounts are not tracked for ${operator}: ${accounts.join(', ')}`);
+        this.name = 'UntrackedAccountsError';
+        this.accounts = accounts;
+    }
 }
 
 export class Reclaimer {
     private connection: Connection;
-    private operatorKeypair: Keypair;
+    private signer: Signer;
+    private coSigners: Signer[];
+    // Close destination for reclaimed rent (operator unless configured)
+    private destination: PublicKey;
     private dryRun: boolean;
     private whitelist: Set<string>;
-
-    constructor(connection: Connection, operatorKeypair: Keypair, options: { dryRun?: boolean, whitelist?: string[] } = {}) {
+    private lookupTables: LookupTableManager | null;
+    private feeEstimator: FeeEstimator;
+    private breaker: CircuitBreaker;
+    // Set once the circuit breaker blocks this operator; later batches in the run are not attempted
+    private blocked = false;
+    // Set when priority fees are above the ceiling; the rest of the run waits for the next cycle
+    private deferred = false;
+    // When each eligible account became reclaimable, for the profitability max wait
+    private eligibleSince = new Map<string, number>();
+    // Dry-run only: what the run would have sent and written
+    private preview: DryRunReport | null = null;
+    // Profit sweep destinations (empty when sweeping is off)
+    private treasurySplits: TreasurySplit[] = [];
+
+    constructor(connection: Connection, signer: Signer, options: { dryRun?: boolean, whitelist?: string[], coSigners?: Signer[], destination?: PublicKey } = {}) {
         this.connection = connection;
-        this.operatorKeypair = operatorKeypair;
+        this.signer = signer;
+        this.destination = options.destination || signer.publicKey;
+        this.coSigners = (options.coSigners || []).filter(s => !s.publicKey.equals(signer.publicKey));
         this.dryRun = options.dryRun || false;
         this.whitelist = new Set(options.whitelist || []);
+        this.lookupTables = RECLAIM_TX_VERSION === 'v0' ? new LookupTableManager(connection, signer) : null;
+        this.feeEstimator = new FeeEstimator(connection);
+        this.breaker = new CircuitBreaker(signer.publicKey.toBase58(), { dryRun: this.dryRun });
 
         if (this.dryRun) {
             console.log("[KoraScan] [DRY RUN] ACTIVE - No transactions will be sent.");
+            this.preview = createDryRunReport(signer.publicKey.toBase58(), this.destination.toBase58());
         }
 
         // Log Safety Configuration
@@ -58,27 +186,51 @@ export class Reclaimer {
             console.log(`[Safety] ⚠️ Cool-Down DISABLED (RECLAIM_COOL_DOWN_DAYS not set)`);
         }
 
-        if (RECLAIM_CIRCUIT_BREAKER_SOL > 0) {
-            console.log(`[Safety] 🛡️ Circuit Breaker Active: > ${RECLAIM_CIRCUIT_BREAKER_SOL} SOL`);
-        } else {
-            console.log(`[Safety] ⚠️ Circuit Breaker DISABLED (RECLAIM_CIRCUIT_BREAKER_SOL not set)`);
+        CircuitBreaker.logConfig();
+
+        if (RECLAIM_MIN_PROFIT_SOL > 0) {
+            console.log(`[Profit] 💹 Min net profit per tx: ${RECLAIM_MIN_PROFIT_SOL} SOL (small batches held up to ${RECLAIM_MAX_WAIT_HOURS}h)`);
+        }
+        if (RECLAIM_PRIORITY_FEE_CEILING > 0) {
+            console.log(`[Profit] ⛽ Deferring reclaims while priority fees > ${RECLAIM_PRIORITY_FEE_CEILING} µL/CU`);
+        }
+
+        console.log(`[Config] Reclaim transactions: ${RECLAIM_TX_VERSION === 'v0' ? 'v0 + Address Lookup Table' : 'legacy'}`);
+
+        if (!this.destination.equals(signer.publicKey)) {
+            console.log(`[Config] 🎯 Reclaimed rent goes directly to ${this.destination.toBase58()}`);
         }
 
-        if (TREASURY_WALLET) {
-            console.log(`[Config] 🏦 Treasury Auto-Forwarding ACTIVE -> ${TREASURY_WALLET} (Min: ${TREASURY_MIN_SOL} SOL)`);
+        try {
+            this.treasurySplits = loadTreasurySplits();
+        } catch (e: any) {
+            console.error(`[Config] ❌ Treasury sweeps DISABLED: ${e.message}`);
+        }
+        if (this.treasurySplits.length > 0) {
+            console.log(`[Config] 🏦 Treasury Auto-Forwarding ACTIVE -> ${describeTreasuryConfig(this.treasurySplits)}`);
         }
     }
 
+    /**
+     * Closes, fees and status changes collected by a dry run (null when not a dry run)
+     */
+    getDryRunReport(): DryRunReport | null {
+        return this.preview;
+    }
+
     /**
      * Reclaim all eligible accounts from database
      */
-    async reclaimAllEligible(): Promise<{ success: number; failed: number; sol: number }> {
-        const reclaimableAccounts = await getReclaimableAccounts();
+    async reclaimAllEligible(selection: ReclaimSelection = {}): Promise<{ success: number; failed: number; sol: number }> {
+        // Settle transactions a previous run sent but never recorded
+        const journal = this.dryRun ? { inFlight: new Set<string>(), resubmitted: { success: 0, failed: 0, sol: 0 } } : await this.reconcileJournal();
+
+        const reclaimableAccounts = await getReclaimableAccounts(this.signer.publicKey.toBase58(), selection);
 
         console.log(`[Safety] Checking ${reclaimableAccounts.length} potentially reclaimable accounts...`);
 
-        // 1. Filter by Whitelist
-        const nonWhitelisted = reclaimableAccounts.filter(acc => !this.whitelist.has(acc.pubkey));
+        // 1. Filter by Whitelist (and skip accounts whose close is still in flight)
+        const nonWhitelisted = reclaimableAccounts.filter(acc => !this.whitelist.has(acc.pubkey) && !journal.inFlight.has(acc.pubkey));
 
         let eligible = nonWhitelisted;
 
@@ -101,52 +253,286 @@ export class Reclaimer {
             }
         }
 
+        // 3. Apply selection caps
+        eligible = capSelection(eligible, selection);
+
         if (eligible.length === 0) {
             console.log("[KoraScan] No accounts eligible for reclaim.");
             // Even if no reclaims, check if we need to sweep (e.g. from previous runs)
             await this.sweepProfitToTreasury();
-            return { success: 0, failed: 0, sol: 0 };
+            return journal.resubmitted;
         }
 
         console.log(`[KoraScan] Processing ${eligible.length} eligible accounts...`);
+        this.eligibleSince = eligibilityTimes(eligible);
         const pubkeys = eligible.map(acc => acc.pubkey);
         const result = await this.reclaimAccounts(pubkeys);
 
         // Auto-Sweep Profit
         await this.sweepProfitToTreasury();
 
-        return result;
+        return {
+            success: result.success + journal.resubmitted.success,
+            failed: result.failed + journal.resubmitted.failed,
+            sol: result.sol + journal.resubmitted.sol
+        };
     }
 
     /**
-     * Auto-sweeps excess SOL from hot wallet to Treasury
+     * Reclaim accounts named explicitly (support requests, retries of `error` accounts).
+     * Each account is re-analyzed on-chain and its status recorded as a discovery pass would; the closable ones
+     * then go through the same double-tap checks, safety gates and recording as a sweep.
+     * Accounts not tracked for this operator are refused unless `forceUntracked`.
      */
-    private async sweepProfitToTreasury() {
-        if (!TREASURY_WALLET || this.dryRun) return;
+    async reclaimTargeted(pubkeyStrs: string[], options: { forceUntracked?: boolean } = {}): Promise<BatchResult & { skipped: number }> {
+        const operator = this.signer.publicKey.toBase58();
+        const tracked = new Map((await getAccountsByPubkeys(operator, pubkeyStrs)).map(a => [a.pubkey, a]));
+        const untracked = pubkeyStrs.filter(pk => !tracked.has(pk));
 
-        try {
-            const balance = await this.connection.getBalance(this.operatorKeypair.publicKey);
-            const balanceSol = balance / 1e9;
-            const minSol = TREASURY_MIN_SOL;
-            const keepSol = 0.1; // Keep 0.1 SOL for gas
+        if (untracked.length > 0 && !options.forceUntracked) {
+            throw new UntrackedAccountsError(operator, untracked);
+        }
+        if (untracked.length > 0) {
+            console.warn(`[KoraScan] ⚠️ Including ${untracked.length} untracked accounts (forced).`);
+        }
+
+        const journal = this.dryRun ? { inFlight: new Set<string>(), resubmitted: { success: 0, failed: 0, sol: 0 } } : await this.reconcileJournal();
 
-            if (balanceSol > minSol) {
-                const amountToSend = balanceSol - keepSol;
-                if (amountToSend <= 0) return;
+        // Already-closed reclaims keep their records; in-flight closes are left to the journal
+        const targets = pubkeyStrs.filter(pk => {
+            const status = tracked.get(pk)?.status;
+            if (status === 'reclaim_pending' || status === 'reclaimed') {
+                console.log(`[KoraScan] Skipping ${pk.slice(0, 8)}... - already ${status}`);
+                return false;
+            }
+            if (journal.inFlight.has(pk)) {
+                console.log(`[KoraScan] Skipping ${pk.slice(0, 8)}... - close still in flight`);
+                return false;
+            }
+            return true;
+        });
 
-                console.log(`[Treasury] 💰 Sweeping profit: ${amountToSend.toFixed(4)} SOL -> ${TREASURY_WALLET}`);
+        const analyzer = new Analyzer(this.connection, this.signer.publicKey);
+        const analyzed = await analyzer.analyzeAccounts(targets.map(pk => {
+            const known = tracked.get(pk);
+            return {
+                pubkey: pk,
+                userWallet: known?.userWallet || '',
+                mint: known?.mint || '',
+                type: toAccountType(known?.type),
+                rentPaid: known?.rentPaid || 0,
+                signature: known?.signature || 'UNKNOWN',
+                slot: known?.slot || 0,
+                timestamp: known?.initialTimestamp || Date.now(),
+                sponsorshipSource: known?.sponsorshipSource || 'UNKNOWN',
+                memo: known?.memo || ''
+            };
+        }));
+        const results = new Map(analyzed.map(a => [a.pubkey, a]));
+
+        const updates: AccountUpdate[] = [];
+        const newAccounts: SponsoredAccount[] = [];
+        const closable: string[] = [];
+
+        for (const pk of targets) {
+            const res = results.get(pk);
+            let status: string;
+            let statusReason: string | undefined;
+
+            if (!res) {
+                // The Analyzer drops accounts that no longer exist
+                if (tracked.has(pk)) updates.push({ pubkey: pk, status: 'closed', statusReason: 'Account no longer exists' });
+                else console.warn(`[KoraScan] ${pk} does not exist on-chain`);
+                continue;
+            } else if (res.canReclaim) {
+                status = 'reclaimable';
+                closable.push(pk);
+            } else if (res.status) {
+                status = res.status;
+                statusReason = res.reason;
+            } else if (res.reason === 'balance_nonzero') {
+                status = 'active';
+                statusReason = res.reason;
+            } else {
+                console.warn(`[KoraScan] ${pk} cannot be reclaimed: ${res.reason}`);
+                continue;
+            }
 
-                const tx = new Transaction().add(
-                    SystemProgram.transfer({
-                        fromPubkey: this.operatorKeypair.publicKey,
-                        toPubkey: new PublicKey(TREASURY_WALLET),
-                        lamports: Math.floor(amountToSend * 1e9)
-                    })
-                );
+            if (tracked.has(pk)) {
+                updates.push({ pubkey: pk, mint: res.mint, userWallet: res.userWallet, status, statusReason, closedAt: status === 'reclaimable' ? Date.now() : undefined });
+            } else {
+                newAccounts.push({
+                    pubkey: pk,
+                    operator,
+                    userWallet: res.userWallet,
+                    mint: res.mint,
+                    type: res.type,
+                    rentPaid: res.lamports,
+                    signature: 'UNKNOWN',
+                    slot: 0,
+                    initialTimestamp: Date.now(),
+                    sponsorshipSource: 'UNKNOWN',
+                    memo: '',
+                    status,
+                    statusReason,
+                    closedAt: status === 'reclaimable' ? Date.now() : undefined,
+                    discoveredVia: 'manual'
+                });
+            }
+        }
+
+        await this.writeStatuses(updates);
+        if (this.preview) {
+            newAccounts.forEach(a => this.preview!.statusChanges.push({ pubkey: a.pubkey, status: a.status, reason: a.statusReason || 'newly tracked' }));
+        } else {
+            await batchUpsertAccounts(newAccounts);
+        }
 
-                const sig = await sendAndConfirmTransaction(this.connection, tx, [this.operatorKeypair]);
-                console.log(`[Treasury] ✅ Sweep Complete: ${sig}`);
+        const skipped = pubkeyStrs.length - closable.length;
+        console.log(`[KoraScan] ${closable.length} of ${pubkeyStrs.length} requested accounts can be reclaimed.`);
+        if (closable.length === 0) return { ...journal.resubmitted, skipped };
+
+        // Newly tracked accounts have no history yet and wait like any other
+        this.eligibleSince = eligibilityTimes(closable.filter(pk => tracked.has(pk)).map(pk => tracked.get(pk)!));
+        const result = await this.reclaimAccounts(closable);
+        return {
+            success: result.success + journal.resubmitted.success,
+            failed: result.failed + journal.resubmitted.failed,
+            sol: result.sol + journal.resubmitted.sol,
+            skipped
+        };
+    }
+
+    /**
+     * Crash recovery: settle every journaled transaction still marked pending.
+     *
+     * - landed:  record the closes the previous run never wrote to sponsored_accounts
+     * - failed:  the accounts stay reclaimable for the next pass
+     * - expired: blockhash is past its last valid block height, so it can never land. Resubmitted after re-verifying.
+     *
+     * Returns accounts whose transaction may still land (not expired yet) so they are not sent twice.
+     */
+    async reconcileJournal(): Promise<{ inFlight: Set<string>; resubmitted: BatchResult }> {
+        const inFlight = new Set<string>();
+        const resubmitted: BatchResult = { success: 0, failed: 0, sol: 0 };
+        const pending = await getPendingJournalEntries(this.signer.publicKey.toBase58());
+        if (pending.length === 0) return { inFlight, resubmitted };
+
+        console.log(`[Journal] Reconciling ${pending.length} pending reclaim transactions...`);
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        const toResubmit: string[] = [];
+        const STATUS_BATCH_SIZE = 256;
+
+        for (let i = 0; i < pending.length; i += STATUS_BATCH_SIZE) {
+            const batch = pending.slice(i, i + STATUS_BATCH_SIZE);
+            const { value: statuses } = await this.connection.getSignatureStatuses(
+                batch.map(e => e.signature),
+                { searchTransactionHistory: true }
+            );
+
+            for (let j = 0; j < batch.length; j++) {
+                const entry = batch[j];
+                const status = statuses[j];
+                const label = `[Journal] ${entry.signature.slice(0, 8)}...`;
+
+                if (status?.err) {
+                    console.warn(`${label} failed on-chain: ${JSON.stringify(status.err)}`);
+                    await updateJournalStatus(entry.signature, 'failed', JSON.stringify(status.err));
+                } else if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+                    const lamports = entry.accounts.reduce((sum, a) => sum + a.lamports, 0);
+                    console.log(`${label} landed. Recording ${entry.accounts.length} closes (${(lamports / 1e9).toFixed(4)} SOL)`);
+                    await this.recordJournaledCloses(entry);
+                    await updateJournalStatus(entry.signature, 'landed');
+                } else if (await isJournalEntryExpired(this.connection, entry, blockHeight)) {
+                    const why = entry.nonceAccount ? 'nonce advanced' : `block height ${blockHeight} > ${entry.lastValidBlockHeight}`;
+                    console.warn(`${label} expired (${why}). Resubmitting ${entry.accounts.length} accounts.`);
+                    await updateJournalStatus(entry.signature, 'expired', entry.nonceAccount ? 'Nonce advanced before landing' : 'Blockhash expired before landing');
+                    toResubmit.push(...entry.accounts.map(a => a.pubkey));
+                } else {
+                    const until = entry.nonceAccount ? `until nonce account ${entry.nonceAccount.slice(0, 8)}... advances` : `until block ${entry.lastValidBlockHeight}`;
+                    console.log(`${label} still in flight (valid ${until}). Leaving it pending.`);
+                    entry.accounts.forEach(a => inFlight.add(a.pubkey));
+                }
             }
+        }
+
+        if (toResubmit.length > 0) {
+            // reclaimAccounts re-fetches and re-verifies every account before building new transactions
+            const result = await this.reclaimAccounts(toResubmit);
+            resubmitted.success = result.success;
+            resubmitted.failed = result.failed;
+            resubmitted.sol = result.sol;
+        }
+
+        return { inFlight, resubmitted };
+    }
+
+    private async recordJournaledCloses(entry: JournalEntry): Promise<void> {
+        const landedAt = Date.now();
+        // The crashed run never recorded the fee either
+        const outcome = await fetchTransactionOutcome(this.connection, entry.signature);
+        if (outcome) await this.recordFee(outcome, 'RECLAIM');
+
+        for (const { pubkey, lamports } of entry.accounts) {
+            await updateAccountStatus(pubkey, 'reclaim_pending', landedAt, entry.signature);
+            await batchUpdateAccountMetadata([{
+                pubkey,
+                reclaimedAmount: outcome?.deltas.get(pubkey) ?? lamports,
+                reclaimDestination: entry.destination || this.signer.publicKey.toBase58()
+            }]);
+        }
+    }
+
+    private async recordFee(outcome: TransactionOutcome, txType: string): Promise<void> {
+        await recordSentTransactionFee({
+            signature: outcome.signature,
+            operator: this.signer.publicKey.toBase58(),
+            feeLamports: outcome.feeLamports,
+            priorityFeeMicroLamports: outcome.computeUnitPriceMicroLamports,
+            priorityFeeLamports: outcome.priorityFeeLamports,
+            timestamp: Date.now(),
+            txType,
+            slot: outcome.slot
+        }).catch(e => console.warn(`[KoraScan] Failed to record fee for ${outcome.signature}: ${e.message}`));
+    }
+
+    /**
+     * Auto-sweeps excess SOL from hot wallet to Treasury, split across the configured destinations.
+     * The reserve left behind covers the recent fee burn.
+     */
+    private async sweepProfitToTreasury() {
+        if (this.treasurySplits.length === 0 || this.dryRun) return;
+        const operator = this.signer.publicKey.toBase58();
+
+        try {
+            const balance = await this.connection.getBalance(this.signer.publicKey);
+            if (balance / 1e9 <= TREASURY_MIN_SOL) return;
+
+            const recentFees = await getFeesPaidSince(operator, Date.now() - TREASURY_RESERVE_DAYS * 24 * 60 * 60 * 1000);
+            const plan = planTreasurySweep(balance, recentFees, this.treasurySplits);
+            if (plan.skipReason) {
+                console.log(`[Treasury] Skipping sweep: ${plan.skipReason}`);
+                return;
+            }
+
+            const total = plan.transfers.reduce((sum, t) => sum + t.lamports, 0);
+            console.log(`[Treasury] 💰 Sweeping profit: ${(total / 1e9).toFixed(4)} SOL (keeping ${(plan.reserveLamports / 1e9).toFixed(4)} SOL reserve)`);
+            plan.transfers.forEach(t => console.log(`[Treasury]    ${(t.lamports / 1e9).toFixed(4)} SOL -> ${t.destination.toBase58()}`));
+
+            const { signature: sig } = await this.sendInstructions(plan.transfers.map(t => SystemProgram.transfer({
+                fromPubkey: this.signer.publicKey,
+                toPubkey: t.destination,
+                lamports: t.lamports
+            })), [], 'TREASURY_SWEEP');
+
+            await recordTreasuryTransfers(plan.transfers.map(t => ({
+                operator,
+                signature: sig,
+                destination: t.destination.toBase58(),
+                lamports: t.lamports,
+                reserveLamports: plan.reserveLamports
+            })));
+            console.log(`[Treasury] ✅ Sweep Complete: ${sig}`);
         } catch (e: any) {
             console.error(`[Treasury] ⚠️ Sweep failed: ${e.message}`);
         }
@@ -160,20 +546,59 @@ export class Reclaimer {
         let totalFailed = 0;
         let totalSol = 0;
 
+        this.blocked = false;
+        this.deferred = false;
+        const trip = await this.breaker.getActiveTrip();
+        if (trip) {
+            console.error(`[Safety] 🚨 Reclaims blocked by circuit breaker (${trip.rule}, ${new Date(trip.trippedAt).toISOString()}): ${trip.detail}`);
+            console.error(`[Safety] Review and run \`safety reset\` to resume.`);
+            this.blocked = true;
+            return { success: 0, failed: 0, sol: 0 };
+        }
+
         // 1. FAST: Pre-fetch ALL account info (Double-Tap Check)
         console.log(`[KoraScan] Pre-fetching ${pubkeyStrs.length} accounts...`);
-        const accountsWithInfo = await this.batchFetchAccounts(pubkeyStrs);
+        const fetched = await this.batchFetchAccounts(pubkeyStrs);
+        const accountsWithInfo = await this.prepareExtensions(await this.resolveCloseAuthorities(fetched));
 
         console.log(`[KoraScan] ${accountsWithInfo.length} accounts verified. Batching for reclaim...`);
 
-        // 2. Process in transaction batches
-        for (let i = 0; i < accountsWithInfo.length; i += BATCH_SIZE) {
-            const batch = accountsWithInfo.slice(i, i + BATCH_SIZE);
-            const result = await this.reclaimBatch(batch);
+        // 2. Process in transaction batches, each sized to fit one packet
+        let remaining = accountsWithInfo;
+        while (remaining.length > 0 && !this.blocked && !this.deferred) {
+            const window = remaining.slice(0, MAX_TX_ACCOUNT_LOCKS);
+            let lookupTables: AddressLookupTableAccount[] = [];
+            let tableCost = 0;
+
+            // A table only pays off when the closes it makes room for return more than it costs to extend
+            const direct = this.packBatch(window, []);
+            if (this.lookupTables && !this.dryRun && direct.length < this.maxBatchCount(window.length)) {
+                try {
+                    const targets = window.map(a => a.pubkey);
+                    const cost = await this.lookupTables.estimateCost(targets);
+                    const extraRent = window.slice(direct.length).reduce((sum, a) => sum + a.info.lamports, 0);
+                    if (extraRent > cost) {
+                        lookupTables = [await this.lookupTables.prepare(targets)];
+                        tableCost = cost;
+                    } else {
+                        console.log(`[Profit] Lookup table would cost ${(cost / 1e9).toFixed(6)} SOL for ${(extraRent / 1e9).toFixed(6)} SOL of extra closes. Packing without it.`);
+                    }
+                } catch (e: any) {
+                    console.warn(`[KoraScan] Lookup table unavailable, packing without it: ${e.message}`);
+                }
+            }
+
+            const batch = lookupTables.length > 0 ? this.packBatch(window, lookupTables) : direct;
+            const result = await this.reclaimBatch(batch, lookupTables, tableCost);
 
             totalSuccess += result.success;
             totalFailed += result.failed;
             totalSol += result.sol;
+            remaining = remaining.slice(batch.length);
+        }
+
+        if (this.deferred && remaining.length > 0) {
+            console.log(`[Profit] ${remaining.length} accounts deferred to the next cycle.`);
         }
 
         const actionStr = this.dryRun ? "SIMULATED" : "ACTUAL";
@@ -213,7 +638,7 @@ export class Reclaimer {
 
                     if (!info) {
                         // Account doesn't exist? Already closed.
-                        if (!this.dryRun) await updateAccountStatus(pubkeyStr, 'closed');
+                        await this.writeStatuses([{ pubkey: pubkeyStr, status: 'closed', statusReason: 'Account no longer exists' }]);
                         continue;
                     }
 
@@ -224,10 +649,23 @@ export class Reclaimer {
                         // Double-Tap Verification: Check Token Balance
                         try {
                             const decoded = AccountLayout.decode(info.data);
+
+                            // Frozen, uninitialized and wrapped-SOL-above-rent accounts are never closed
+                            const safety = classifyAccountSafety(decoded, info.lamports);
+                            if (safety) {
+                                console.warn(`[Safety] Skipping ${pubkeyStr} - ${safety.reason}`);
+                                await this.writeStatuses([{
+                                    pubkey: pubkeyStr,
+                                    status: safety.status,
+                                    statusReason: safety.reason
+                                }]);
+                                continue;
+                            }
+
                             if (decoded.amount > BigInt(0)) {
                                 console.warn(`[Safety] Skipping ${pubkeyStr} - Non-zero token balance!`);
                                 // Mark as active or error?
-                                if (!this.dryRun) await batchUpdateAccountMetadata([{
+                                await this.writeStatuses([{
                                     pubkey: pubkeyStr,
                                     status: 'active',
                                     errorMessage: 'Revived: Non-zero token balance'
@@ -245,7 +683,7 @@ export class Reclaimer {
                         });
                     } else {
                         console.log(`[KoraScan] Skipped ${pubkeyStr} (Non-token: ${ownerStr})`);
-                        if (!this.dryRun) await updateAccountStatus(pubkeyStr, 'active');
+                        await this.writeStatuses([{ pubkey: pubkeyStr, status: 'active', statusReason: `Non-token account (owner ${ownerStr})` }]);
                     }
                 }
             } catch (e) {
@@ -261,110 +699,414 @@ export class Reclaimer {
     }
 
     /**
-     * Reclaim a batch of pre-fetched accounts
+     * Match every account with the authority that will sign its close.
+     * Multisig-owned accounts get M signers from the operator and co-signers, or are locked with the reason.
      */
-    private async reclaimBatch(accounts: AccountWithInfo[]): Promise<{ success: number; failed: number; sol: number }> {
-        if (accounts.length === 0) {
-            return { success: 0, failed: 0, sol: 0 };
+    private async resolveCloseAuthorities(accounts: AccountWithInfo[]): Promise<AccountWithInfo[]> {
+        const closeAuthorities = new Map<string, PublicKey | null>();
+        for (const { pubkey, info } of accounts) {
+            const decoded = AccountLayout.decode(info.data.slice(0, ACCOUNT_SIZE));
+            closeAuthorities.set(pubkey.toBase58(), decoded.closeAuthorityOption === 1 ? decoded.closeAuthority : null);
         }
 
-        const potentialSol = accounts.reduce((sum, a) => sum + a.info.lamports, 0) / 1e9;
+        const foreign = new Map<string, PublicKey>();
+        for (const authority of closeAuthorities.values()) {
+            if (authority && !authority.equals(this.signer.publicKey)) foreign.set(authority.toBase58(), authority);
+        }
+        const multisigs = foreign.size > 0
+            ? await fetchMultisigs(this.connection, Array.from(foreign.values()))
+            : new Map<string, MultisigInfo>();
 
-        // Circuit Breaker Check (IF ENABLED)
-        if (RECLAIM_CIRCUIT_BREAKER_SOL > 0 && potentialSol > RECLAIM_CIRCUIT_BREAKER_SOL && !this.dryRun) {
-            console.error(`[Safety] 🚨 CIRCUIT BREAKER TRIPPED! Batch value ${potentialSol.toFixed(4)} SOL > Limit ${RECLAIM_CIRCUIT_BREAKER_SOL} SOL.`);
-            console.error(`[Safety] Aborting batch to prevent loss.`);
-            // Update DB with error
-            const updates = accounts.map(a => ({
-                pubkey: a.pubkey.toBase58(),
-                status: 'error',
-                errorMessage: 'Circuit Breaker Tripped'
-            }));
-            await batchUpdateAccountMetadata(updates);
-            return { success: 0, failed: accounts.length, sol: 0 };
+        const resolved: AccountWithInfo[] = [];
+        const locked: { pubkey: string; status: string; statusReason: string }[] = [];
+
+        for (const account of accounts) {
+            const pubkeyStr = account.pubkey.toBase58();
+            const authority = closeAuthorities.get(pubkeyStr);
+
+            if (authority && authority.equals(this.signer.publicKey)) {
+                resolved.push(account);
+                continue;
+            }
+
+            const multisig = authority ? multisigs.get(authority.toBase58()) : undefined;
+            if (!multisig || !isMultisigMember(multisig, this.signer.publicKey)) {
+                locked.push({ pubkey: pubkeyStr, status: 'locked', statusReason: 'authority_mismatch' });
+                continue;
+            }
+
+            const signers = selectMultisigSigners(multisig, this.signer, this.coSigners);
+            if (!signers) {
+                const available = [this.signer, ...this.coSigners].filter(s => isMultisigMember(multisig, s.publicKey)).length;
+                const reason = `multisig_insufficient_signers: ${available} of ${multisig.m} required signers configured for ${multisig.address.toBase58()}`;
+                console.warn(`[KoraScan] Locked ${pubkeyStr.slice(0, 8)}... ${reason}`);
+                locked.push({ pubkey: pubkeyStr, status: 'locked', statusReason: reason });
+                continue;
+            }
+
+            resolved.push({ ...account, multisig: { info: multisig, signers } });
         }
 
-        if (this.dryRun) {
-            console.log(`[KoraScan] [DRY RUN] Would reclaim batch of ${accounts.length} accounts (~${potentialSol.toFixed(4)} SOL)`);
-            return { success: accounts.length, failed: 0, sol: potentialSol };
+        await this.writeStatuses(locked);
+
+        return resolved;
+    }
+
+    /**
+     * Handle Token-2022 extensions that affect closing.
+     * Withheld transfer fees are harvested to the mint in the close transaction (permissionless);
+     * accounts that still cannot be closed are locked with the reason.
+     */
+    private async prepareExtensions(accounts: AccountWithInfo[]): Promise<AccountWithInfo[]> {
+        const prepared: AccountWithInfo[] = [];
+        const locked: { pubkey: string; status: string; statusReason: string }[] = [];
+        const needsHarvest: { account: AccountWithInfo; mint: PublicKey; withheld: bigint }[] = [];
+
+        for (const account of accounts) {
+            let extensions;
+            try {
+                extensions = parseTokenAccountExtensions(account.pubkey, account.info);
+            } catch (e: any) {
+                console.warn(`[KoraScan] Failed to parse extensions of ${account.pubkey.toBase58()}: ${e.message}`);
+                continue;
+            }
+
+            const blocker = getExtensionCloseBlocker(extensions);
+            if (blocker) {
+                locked.push({ pubkey: account.pubkey.toBase58(), status: 'locked', statusReason: blocker });
+            } else if (extensions && extensions.withheldAmount > 0n) {
+                const mint = AccountLayout.decode(account.info.data.slice(0, ACCOUNT_SIZE)).mint;
+                needsHarvest.push({ account, mint, withheld: extensions.withheldAmount });
+            } else {
+                prepared.push(account);
+            }
         }
 
-        console.log(`[KoraScan] Reclaiming batch of ${accounts.length} accounts...`);
+        if (needsHarvest.length > 0) {
+            // Harvesting needs the mint to still exist
+            const mints = await this.connection.getMultipleAccountsInfo(needsHarvest.map(h => h.mint));
+            needsHarvest.forEach(({ account, mint, withheld }, i) => {
+                if (mints[i]) {
+                    prepared.push({ ...account, harvestMint: mint });
+                } else {
+                    locked.push({
+                        pubkey: account.pubkey.toBase58(),
+                        status: 'locked',
+                        statusReason: `transfer_fee_withheld: ${withheld} withheld, mint ${mint.toBase58()} is closed so fees cannot be harvested`
+                    });
+                }
+            });
+        }
+
+        if (locked.length > 0) {
+            locked.forEach(l => console.warn(`[KoraScan] Locked ${l.pubkey.slice(0, 8)}... ${l.statusReason}`));
+            await this.writeStatuses(locked);
+        }
+
+        return prepared;
+    }
+
+    /**
+     * Greedily take accounts until the next close would overflow the packet or lock limit
+     */
+    private packBatch(accounts: AccountWithInfo[], lookupTables: AddressLookupTableAccount[]): AccountWithInfo[] {
+        const maxCount = this.maxBatchCount(accounts.length);
+        let count = 1;
+
+        while (count < maxCount) {
+            const candidate = accounts.slice(0, count + 1);
+            const size = this.measureTransactionSize(this.buildCloseInstructions(candidate).instructions, lookupTables);
+            if (size > PACKET_DATA_SIZE) break;
+            count++;
+        }
 
+        return accounts.slice(0, count);
+    }
+
+    private maxBatchCount(available: number): number {
+        return Math.min(available, MAX_BATCH_SIZE > 0 ? MAX_BATCH_SIZE : Infinity);
+    }
+
+    /**
+     * Serialized size of the signed transaction. Returns Infinity when it cannot be encoded.
+     */
+    private measureTransactionSize(instructions: TransactionInstruction[], lookupTables: AddressLookupTableAccount[]): number {
         try {
-            const tx = new Transaction();
-            tx.add(ComputeBudgetProgram.setComputeUnitPrice({
-                microLamports: PRIORITY_FEE_MICRO_LAMPORTS
-            }));
+            const tx = this.compileTransaction(this.withComputeBudget(instructions, 1, MAX_COMPUTE_UNITS), lookupTables, PublicKey.default.toBase58());
+            const lockedAccounts = tx.message.staticAccountKeys.length + tx.message.addressTableLookups
+                .reduce((sum, l) => sum + l.writableIndexes.length + l.readonlyIndexes.length, 0);
+            if (lockedAccounts > MAX_TX_ACCOUNT_LOCKS) return Infinity;
+
+            return tx.serialize().length;
+        } catch {
+            return Infinity;
+        }
+    }
 
-            let totalLamports = 0;
-            const validPubkeys: string[] = [];
+    private buildCloseInstructions(accounts: AccountWithInfo[]): CloseInstructions {
+        const instructions: TransactionInstruction[] = [];
+        const owners: (number | null)[] = [];
 
-            for (const { pubkey, info } of accounts) {
-                const ownerStr = info.owner.toBase58();
-                const programId = ownerStr === TOKEN_2022_PROGRAM_STR ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+        accounts.forEach(({ pubkey, info, multisig, harvestMint }, index) => {
+            const ownerStr = info.owner.toBase58();
+            const programId = ownerStr === TOKEN_2022_PROGRAM_STR ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+            // Close fails while transfer fees are withheld, so move them to the mint first
+            if (harvestMint) {
+                instructions.push(createHarvestWithheldTokensToMintInstruction(harvestMint, [pubkey], programId));
+                owners.push(index);
+            }
+
+            instructions.push(createCloseAccountInstruction(
+                pubkey,
+                this.destination,
+                multisig ? multisig.info.address : this.signer.publicKey,
+                multisig ? multisig.signers.map(s => s.publicKey) : [],
+                programId
+            ));
+            owners.push(index);
+        });
+
+        return { instructions, owners };
+    }
+
+    /**
+     * Compile instructions into an unsigned legacy or v0 transaction
+     */
+    private compileTransaction(instructions: TransactionInstruction[], lookupTables: AddressLookupTableAccount[], recentBlockhash: string): VersionedTransaction {
+        const message = new TransactionMessage({
+            payerKey: this.signer.publicKey,
+            recentBlockhash,
+            instructions
+        });
+
+        return new VersionedTransaction(RECLAIM_TX_VERSION === 'v0'
+            ? message.compileToV0Message(lookupTables)
+            : message.compileToLegacyMessage());
+    }
+
+    /**
+     * Prefix compute budget instructions
+     */
+    private withComputeBudget(instructions: TransactionInstruction[], microLamports: number, computeUnitLimit?: number): TransactionInstruction[] {
+        const budget = [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })];
+        if (computeUnitLimit) {
+            budget.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+        }
+        return [...budget, ...instructions];
+    }
 
-                tx.add(createCloseAccountInstruction(
-                    pubkey,
-                    this.operatorKeypair.publicKey,
-                    this.operatorKeypair.publicKey,
-                    [],
-                    programId
-                ));
+    /**
+     * Measured consumption plus the safety margin, within the runtime maximum
+     */
+    private computeUnitLimit(unitsConsumed?: number): number | undefined {
+        if (!unitsConsumed) return undefined;
+        return Math.min(Math.ceil(unitsConsumed * (1 + RECLAIM_CU_MARGIN)), MAX_COMPUTE_UNITS);
+    }
+
+    /**
+     * Simulate to measure compute, then send with a limit of the measured units plus margin
+     */
+    private async simulateAndSend(
+        instructions: TransactionInstruction[],
+        lookupTables: AddressLookupTableAccount[] = [],
+        journal?: JournalAccounts
+    ): Promise<SentTransaction> {
+        const simulation = await this.simulateInstructions(instructions, lookupTables);
+        if (simulation.err) {
+            throw new SimulationFailure(simulation.err, simulation.logs || []);
+        }
+        return this.sendInstructions(instructions, lookupTables, 'RECLAIM', this.computeUnitLimit(simulation.unitsConsumed), journal);
+    }
 
-                totalLamports += info.lamports;
-                validPubkeys.push(pubkey.toBase58());
+    /**
+     * Sign, send and confirm instructions as a legacy or v0 transaction.
+     * The priority fee is estimated per attempt and raised when a blockhash expires before landing.
+     * With `journal`, every attempt is written to the reclaim journal before it is sent; the caller marks it landed
+     * once the closes are recorded.
+     */
+    private async sendInstructions(
+        instructions: TransactionInstruction[],
+        lookupTables: AddressLookupTableAccount[] = [],
+        txType = 'RECLAIM',
+        computeUnitLimit?: number,
+        journal?: JournalAccounts
+    ): Promise<SentTransaction> {
+        await this.assertNoWrappedSolClosed(instructions);
+
+        const writable = getWritableAccounts(instructions);
+        let lastError: any;
+
+        for (let attempt = 0; attempt <= RECLAIM_MAX_RESUBMITS; attempt++) {
+            const microLamports = await this.feeEstimator.estimate(writable, attempt);
+            const fullInstructions = this.withComputeBudget(instructions, microLamports, computeUnitLimit);
+
+            const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+            const tx = await this.signTransaction(this.compileTransaction(fullInstructions, lookupTables, blockhash));
+
+            if (journal) {
+                await addJournalEntry({
+                    signature: bs58.encode(tx.signatures[0]),
+                    operator: this.signer.publicKey.toBase58(),
+                    accounts: journal,
+                    destination: this.destination.toBase58(),
+                    blockhash,
+                    lastValidBlockHeight
+                });
             }
 
-            if (validPubkeys.length === 0) {
-                return { success: 0, failed: 0, sol: 0 };
+            const signature = await this.connection.sendTransaction(tx, { skipPreflight: true });
+
+            let confirmation;
+            try {
+                confirmation = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+            } catch (e: any) {
+                if (e instanceof TransactionExpiredBlockheightExceededError) {
+                    lastError = e;
+                    if (journal) await updateJournalStatus(signature, 'expired', e.message);
+                    console.warn(`[KoraScan] ${signature.slice(0, 8)}... expired at ${microLamports} µL/CU. Resubmitting with a higher fee...`);
+                    continue;
+                }
+                throw e;
             }
 
-            const signature = await sendAndConfirmTransaction(
-                this.connection,
-                tx,
-                [this.operatorKeypair],
-                { skipPreflight: true, commitment: 'confirmed' }
-            );
+            if (confirmation.value.err) {
+                if (journal) await updateJournalStatus(signature, 'failed', JSON.stringify(confirmation.value.err));
+                throw new Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+            }
 
-            console.log(`[KoraScan] Batch success! Sig: ${signature} | Reclaimed: ${(totalLamports / 1e9).toFixed(4)} SOL`);
+            // Record what the transaction actually paid. Estimates only when the meta is unavailable.
+            const outcome = await fetchTransactionOutcome(this.connection, signature);
+            const priorityLamports = priorityFeeLamports(microLamports, fullInstructions, computeUnitLimit);
+            await this.recordFee(outcome ?? {
+                signature,
+                slot: confirmation.context.slot,
+                feeLamports: baseFeeLamports(tx.signatures.length) + priorityLamports,
+                priorityFeeLamports: priorityLamports,
+                computeUnitPriceMicroLamports: microLamports,
+                deltas: new Map()
+            }, txType);
+
+            return { signature, outcome };
+        }
 
-            // Send notification (fire and forget)
-            sendNotification(totalLamports / 1e9, validPubkeys.length, signature);
+        throw lastError;
+    }
 
-            // Update database with detailed audit info
-            const reclaimedAmount = totalLamports / 1e9;
-            await batchUpdateAccountMetadata(validPubkeys.map(pk => ({
-                pubkey: pk,
-                status: 'reclaimed',
-                reclaimedAmount: 0, // Individual amount not tracked easily here without map, defaulting 0 or maybe roughly avg? 
-                // Actually better to not set if we can't be precise, or assume rentExemptMin? 
-                // Let's leave undefined or 0.
-                // Wait, we have info.lamports available in the loop. We should use it.
-            })));
+    /**
+     * Last check before anything is signed: re-read every account being closed and refuse
+     * if one is a native (wrapped SOL) account holding more than its rent reserve.
+     */
+    private async assertNoWrappedSolClosed(instructions: TransactionInstruction[]): Promise<void> {
+        const targets = instructions
+            .filter(ix => (ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID)) && ix.data[0] === CLOSE_ACCOUNT_INSTRUCTION)
+            .map(ix => ix.keys[0].pubkey);
+        if (targets.length === 0) return;
+
+        const infos = await this.connection.getMultipleAccountsInfo(targets, 'confirmed');
+        infos.forEach((info, i) => {
+            if (!info || info.data.length < ACCOUNT_SIZE) return;
+            const decoded = AccountLayout.decode(info.data.slice(0, ACCOUNT_SIZE));
+            if (decoded.isNativeOption === 1 && BigInt(info.lamports) > decoded.isNative) {
+                throw new Error(`[Safety] Refusing to close ${targets[i].toBase58()}: wrapped SOL above rent (${info.lamports} lamports)`);
+            }
+        });
+    }
 
-            // Re-loop to update with correct amounts
-            for (const { pubkey, info } of accounts) {
-                if (validPubkeys.includes(pubkey.toBase58())) {
-                    // We can do this async/background
-                    updateAccountStatus(pubkey.toBase58(), 'reclaimed', Date.now(), signature); // Legacy compat
-                    // Plus metadata
-                    await batchUpdateAccountMetadata([{
-                        pubkey: pubkey.toBase58(),
-                        reclaimedAmount: info.lamports
-                    }]);
-                }
+    /**
+     * Sign with the operator and every co-signer the message requires (multisig closes)
+     */
+    private async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+        const required = tx.message.staticAccountKeys.slice(0, tx.message.header.numRequiredSignatures);
+        let signed = tx;
+
+        for (const signer of [this.signer, ...this.coSigners]) {
+            if (required.some(k => k.equals(signer.publicKey))) {
+                signed = await signer.signTransaction(signed);
             }
+        }
+        return signed;
+    }
 
-            return {
-                success: validPubkeys.length,
-                failed: 0,
-                sol: totalLamports / 1e9
-            };
+    /**
+     * Simulate without signatures against the latest blockhash, at the maximum compute limit.
+     * `failedIndex` points into `instructions` (compute budget prefix excluded).
+     */
+    private async simulateInstructions(instructions: TransactionInstruction[], lookupTables: AddressLookupTableAccount[] = []) {
+        const fullInstructions = this.withComputeBudget(instructions, 1, MAX_COMPUTE_UNITS);
+        const prefix = fullInstructions.length - instructions.length;
+
+        const tx = this.compileTransaction(fullInstructions, lookupTables, PublicKey.default.toBase58());
+        const { value } = await this.connection.simulateTransaction(tx, {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment: 'confirmed'
+        });
+
+        const ixIndex = getFailedInstructionIndex(value.err);
+        return {
+            ...value,
+            failedIndex: ixIndex !== null && ixIndex >= prefix ? ixIndex - prefix : null
+        };
+    }
+
+    /**
+     * Reclaim a batch of pre-fetched accounts
+     */
+    private async reclaimBatch(accounts: AccountWithInfo[], lookupTables: AddressLookupTableAccount[] = [], tableCost = 0): Promise<BatchResult> {
+        if (accounts.length === 0) {
+            return { success: 0, failed: 0, sol: 0 };
+        }
+
+        const potentialSol = accounts.reduce((sum, a) => sum + a.info.lamports, 0) / 1e9;
+
+        // Circuit Breaker Check (IF ENABLED)
+        const trip = await this.breaker.check(accounts.map(a => ({
+            pubkey: a.pubkey.toBase58(),
+            lamports: a.info.lamports,
+            dataLength: a.info.data.length
+        })));
+        if (trip) {
+            console.error(`[Safety] Aborting batch of ${accounts.length} accounts to prevent loss.`);
+            this.blocked = true;
+            this.recordHeld(accounts, `Circuit breaker (${trip.rule}): ${trip.detail}`);
+            // The anomalous account needs manual review. The rest stay reclaimable for after the reset.
+            if (trip.account) {
+                await this.writeStatuses([{
+                    pubkey: trip.account,
+                    status: 'error',
+                    errorMessage: `Circuit Breaker Tripped: ${trip.detail}`
+                }]);
+            }
+            return { success: 0, failed: accounts.length, sol: 0 };
+        }
 
+        // Profitability Gate (IF ENABLED)
+        const hold = await this.checkProfitability(accounts, lookupTables, tableCost);
+        if (hold) {
+            const prefix = this.dryRun ? '[DRY RUN] Would hold' : 'Holding';
+            console.log(`[Profit] ${prefix} batch of ${accounts.length} accounts (~${potentialSol.toFixed(4)} SOL): ${hold.reason}`);
+            if (hold.deferAll) this.deferred = true;
+            this.recordHeld(accounts, hold.reason);
+            return { success: 0, failed: 0, sol: 0 };
+        }
+
+        if (this.dryRun) {
+            return this.previewBatch(accounts, lookupTables);
+        }
+
+        console.log(`[KoraScan] Reclaiming batch of ${accounts.length} accounts...`);
+
+        try {
+            const sent = await this.simulateAndSend(this.buildCloseInstructions(accounts).instructions, lookupTables, journalAccounts(accounts));
+            return this.recordBatchSuccess(accounts, sent);
         } catch (e: any) {
             console.error(`[KoraScan] Batch reclaim failed: ${e.message}`);
 
+            if (RECLAIM_FAILURE_MODE === 'split') {
+                return this.isolateFailures(accounts, lookupTables);
+            }
+
             // Try individual reclaims on failure
             let success = 0;
             let failed = 0;
@@ -389,51 +1131,328 @@ export class Reclaimer {
     }
 
     /**
-     * Reclaim a single account (fallback for failed batches)
+     * Why a batch should not be sent yet, or null to send it.
+     * `deferAll` stops the run (network-wide fee spike); otherwise only this batch is held.
+     * `tableCost` is what extending the lookup table for this batch cost (fees and rent).
      */
-    private async reclaimSingle(pubkey: PublicKey, info: AccountInfo<Buffer>): Promise<{ success: boolean, lamports: number }> {
-        if (this.dryRun) return { success: true, lamports: info.lamports / 1e9 };
+    private async checkProfitability(accounts: AccountWithInfo[], lookupTables: AddressLookupTableAccount[], tableCost = 0): Promise<{ reason: string; deferAll: boolean } | null> {
+        if (RECLAIM_MIN_PROFIT_SOL <= 0 && RECLAIM_PRIORITY_FEE_CEILING <= 0) return null;
+
+        const { instructions } = this.buildCloseInstructions(accounts);
+        const writable = getWritableAccounts(instructions);
+        if (RECLAIM_PRIORITY_FEE_CEILING > 0) {
+            // The unclamped network fee: the price we would pay is capped (or fixed) and never shows a spike
+            let networkFee: number | null = null;
+            try {
+                networkFee = await this.feeEstimator.networkFee(writable);
+            } catch (e: any) {
+                console.warn(`[Fees] Prioritization fee lookup failed, not applying the fee ceiling: ${e.message}`);
+            }
+            if (networkFee !== null && networkFee > RECLAIM_PRIORITY_FEE_CEILING) {
+                return { reason: `network priority fee ${networkFee} µL/CU is above the ${RECLAIM_PRIORITY_FEE_CEILING} µL/CU ceiling`, deferAll: true };
+            }
+        }
+        if (RECLAIM_MIN_PROFIT_SOL <= 0) return null;
 
+        const microLamports = await this.feeEstimator.estimate(writable);
+
+        // Price the batch at its simulated compute. A failing simulation is left to the failure isolation.
+        let unitsConsumed: number | undefined;
         try {
-            const tx = new Transaction();
-            tx.add(ComputeBudgetProgram.setComputeUnitPrice({
-                microLamports: PRIORITY_FEE_MICRO_LAMPORTS
-            }));
+            const simulation = await this.simulateInstructions(instructions, lookupTables);
+            if (simulation.err) return null;
+            unitsConsumed = simulation.unitsConsumed;
+        } catch {
+            return null;
+        }
 
-            const ownerStr = info.owner.toBase58();
-            const programId = ownerStr === TOKEN_2022_PROGRAM_STR ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+        const fee = baseFeeLamports(this.signatureCount(accounts)) + priorityFeeLamports(microLamports, instructions, this.computeUnitLimit(unitsConsumed)) + tableCost;
+        const rent = accounts.reduce((sum, a) => sum + a.info.lamports, 0);
+        const net = rent - fee;
+        if (net >= RECLAIM_MIN_PROFIT_SOL * 1e9) return null;
+
+        // Accounts with no known start (new to tracking, resubmissions) have not waited at all
+        const oldest = Math.min(...accounts.map(a => this.eligibleSince.get(a.pubkey.toBase58()) ?? Date.now()));
+        const waitedHours = (Date.now() - oldest) / (60 * 60 * 1000);
+        if (waitedHours >= RECLAIM_MAX_WAIT_HOURS && net > 0) {
+            console.log(`[Profit] Sending small batch after ${RECLAIM_MAX_WAIT_HOURS}h max wait (net ${(net / 1e9).toFixed(6)} SOL)`);
+            return null;
+        }
 
-            tx.add(createCloseAccountInstruction(
-                pubkey,
-                this.operatorKeypair.publicKey,
-                this.operatorKeypair.publicKey,
-                [],
-                programId
-            ));
+        return {
+            reason: `net ${(net / 1e9).toFixed(6)} SOL (rent ${(rent / 1e9).toFixed(6)} - fees ${(fee / 1e9).toFixed(6)}${tableCost > 0 ? `, incl. ${(tableCost / 1e9).toFixed(6)} lookup table` : ''}) is below the ${RECLAIM_MIN_PROFIT_SOL} SOL minimum`,
+            deferAll: false
+        };
+    }
 
-            const signature = await sendAndConfirmTransaction(
-                this.connection,
-                tx,
-                [this.operatorKeypair],
-                { skipPreflight: true, commitment: 'confirmed' }
+    /**
+     * Binary-split failure isolation
+     *
+     * 1. Simulate the batch and drop the account whose close instruction fails (free, no fee).
+     * 2. Send the clean remainder as one transaction.
+     * 3. If that still fails without a simulated cause, bisect and recurse.
+     */
+    private async isolateFailures(accounts: AccountWithInfo[], lookupTables: AddressLookupTableAccount[]): Promise<BatchResult> {
+        const pending = [...accounts];
+        const { failed, unitsConsumed } = await this.dropSimulatedFailures(pending, lookupTables);
+        if (pending.length === 0) return { success: 0, failed, sol: 0 };
+
+        try {
+            const sent = await this.sendInstructions(
+                this.buildCloseInstructions(pending).instructions,
+                lookupTables,
+                'RECLAIM',
+                this.computeUnitLimit(unitsConsumed),
+                journalAccounts(pending)
             );
+            const result = await this.recordBatchSuccess(pending, sent);
+            return { ...result, failed: result.failed + failed };
+        } catch (e: any) {
+            if (pending.length === 1) {
+                await this.recordFailure(pending[0].pubkey, e.message);
+                return { success: 0, failed: failed + 1, sol: 0 };
+            }
+
+            const mid = Math.ceil(pending.length / 2);
+            console.log(`[KoraScan] Splitting ${pending.length} accounts into ${mid} + ${pending.length - mid}...`);
+            const left = await this.isolateFailures(pending.slice(0, mid), lookupTables);
+            const right = await this.isolateFailures(pending.slice(mid), lookupTables);
 
-            await updateAccountStatus(pubkey.toBase58(), 'reclaimed', Date.now(), signature);
+            return {
+                success: left.success + right.success,
+                failed: failed + left.failed + right.failed,
+                sol: left.sol + right.sol
+            };
+        }
+    }
+
+    /**
+     * Simulate `pending` and remove (recording the failure) each account whose close instruction fails,
+     * until the rest simulate cleanly. Stops early, leaving `pending` as is, when simulation is unavailable.
+     */
+    private async dropSimulatedFailures(pending: AccountWithInfo[], lookupTables: AddressLookupTableAccount[]): Promise<{ failed: number; unitsConsumed?: number }> {
+        let failed = 0;
+
+        while (pending.length > 0) {
+            const { instructions, owners } = this.buildCloseInstructions(pending);
+
+            let simulation;
+            try {
+                simulation = await this.simulateInstructions(instructions, lookupTables);
+            } catch (e: any) {
+                console.warn(`[KoraScan] Simulation unavailable: ${e.message}`);
+                return { failed };
+            }
+
+            if (!simulation.err) {
+                return { failed, unitsConsumed: simulation.unitsConsumed };
+            }
+
+            const owner = simulation.failedIndex !== null ? owners[simulation.failedIndex] : null;
+
+            if (owner === null || owner === undefined) {
+                // Transaction-level failure (fees, blockhash...). No single account is to blame.
+                const reason = `Simulation failed: ${JSON.stringify(simulation.err)}`;
+                for (const { pubkey } of pending) await this.recordFailure(pubkey, reason);
+                return { failed: failed + pending.splice(0).length };
+            }
+
+            const [bad] = pending.splice(owner, 1);
+            await this.recordFailure(bad.pubkey, describeProgramError(simulation.err, simulation.logs || []));
+            failed++;
+        }
+
+        return { failed };
+    }
+
+    /**
+     * Dry-run stand-in for sending a batch: simulate it, drop the accounts whose close would fail and price the rest
+     */
+    private async previewBatch(accounts: AccountWithInfo[], lookupTables: AddressLookupTableAccount[]): Promise<BatchResult> {
+        const pending = [...accounts];
+        const { failed, unitsConsumed } = await this.dropSimulatedFailures(pending, lookupTables);
+        if (pending.length === 0) return { success: 0, failed, sol: 0 };
+
+        const { instructions } = this.buildCloseInstructions(pending);
+        const microLamports = await this.feeEstimator.estimate(getWritableAccounts(instructions));
+        const priorityLamports = priorityFeeLamports(microLamports, instructions, this.computeUnitLimit(unitsConsumed));
+        const feeLamports = baseFeeLamports(this.signatureCount(pending)) + priorityLamports;
+        const lamports = pending.reduce((sum, a) => sum + a.info.lamports, 0);
+
+        this.preview!.batches.push({
+            accounts: pending.map(a => a.pubkey.toBase58()),
+            lamports,
+            feeLamports,
+            priorityFeeLamports: priorityLamports,
+            computeUnitPriceMicroLamports: microLamports,
+            unitsConsumed
+        });
+        for (const { pubkey, info } of pending) {
+            this.preview!.closes.push({ pubkey: pubkey.toBase58(), lamports: info.lamports });
+            this.preview!.statusChanges.push({ pubkey: pubkey.toBase58(), status: 'reclaim_pending' });
+        }
+
+        console.log(`[KoraScan] [DRY RUN] Would reclaim batch of ${pending.length} accounts (~${(lamports / 1e9).toFixed(4)} SOL, fee ${(feeLamports / 1e9).toFixed(6)} SOL)`);
+        return { success: pending.length, failed, sol: lamports / 1e9 };
+    }
+
+    /**
+     * Signatures a close batch needs: the operator plus every multisig co-signer
+     */
+    private signatureCount(accounts: AccountWithInfo[]): number {
+        return new Set([
+            this.signer.publicKey.toBase58(),
+            ...accounts.flatMap(a => a.multisig ? a.multisig.signers.map(s => s.publicKey.toBase58()) : [])
+        ]).size;
+    }
+
+    /**
+     * Write account status changes, or only collect them for the preview in dry-run
+     */
+    private async writeStatuses(updates: AccountUpdate[]): Promise<void> {
+        if (updates.length === 0) return;
+        if (this.preview) {
+            for (const u of updates) {
+                if (u.status) this.preview.statusChanges.push({ pubkey: u.pubkey, status: u.status, reason: u.statusReason || u.errorMessage });
+            }
+            return;
+        }
+        await batchUpdateAccountMetadata(updates);
+    }
+
+    private recordHeld(accounts: AccountWithInfo[], reason: string): void {
+        this.preview?.held.push({
+            accounts: accounts.map(a => a.pubkey.toBase58()),
+            lamports: accounts.reduce((sum, a) => sum + a.info.lamports, 0),
+            reason
+        });
+    }
+
+    private async recordBatchSuccess(accounts: AccountWithInfo[], { signature, outcome }: SentTransaction): Promise<BatchResult> {
+        // Exact lamports each closed account released, from the landed transaction
+        const amounts = accounts.map(({ pubkey, info }) => outcome?.deltas.get(pubkey.toBase58()) ?? info.lamports);
+        const totalLamports = amounts.reduce((sum, a) => sum + a, 0);
+        const feeStr = outcome ? ` | Fee: ${(outcome.feeLamports / 1e9).toFixed(6)} SOL` : '';
+        console.log(`[KoraScan] Batch success! Sig: ${signature} | Reclaimed: ${(totalLamports / 1e9).toFixed(4)} SOL${feeStr}`);
+
+        // Send notification (fire and forget)
+        sendNotification(totalLamports / 1e9, accounts.length, signature);
+
+        // Update database with detailed audit info
+        for (let i = 0; i < accounts.length; i++) {
+            await updateAccountStatus(accounts[i].pubkey.toBase58(), 'reclaim_pending', Date.now(), signature);
             await batchUpdateAccountMetadata([{
-                pubkey: pubkey.toBase58(),
-                reclaimedAmount: info.lamports
+                pubkey: accounts[i].pubkey.toBase58(),
+                reclaimedAmount: amounts[i],
+                reclaimDestination: this.destination.toBase58()
             }]);
+        }
+        await updateJournalStatus(signature, 'landed');
 
-            return { success: true, lamports: info.lamports / 1e9 };
+        return { success: accounts.length, failed: 0, sol: totalLamports / 1e9 };
+    }
 
-        } catch (e: any) {
-            console.error(`[KoraScan] Single reclaim failed for ${pubkey.toBase58()}: ${e.message}`);
+    private async recordFailure(pubkey: PublicKey, errorMessage: string): Promise<void> {
+        console.error(`[KoraScan] ${this.dryRun ? '[DRY RUN] Would fail' : 'Reclaim failed for'} ${pubkey.toBase58()}: ${errorMessage}`);
+        await this.writeStatuses([{
+            pubkey: pubkey.toBase58(),
+            status: 'error',
+            errorMessage
+        }]);
+    }
+
+    /**
+     * Reclaim a single account (fallback for failed batches)
+     */
+    private async reclaimSingle(pubkey: PublicKey, info: AccountInfo<Buffer>): Promise<{ success: boolean, lamports: number }> {
+        if (this.dryRun) return { success: true, lamports: info.lamports / 1e9 };
+
+        try {
+            const { signature, outcome } = await this.simulateAndSend(
+                this.buildCloseInstructions([{ pubkey, info }]).instructions,
+                [],
+                journalAccounts([{ pubkey, info }])
+            );
+            const lamports = outcome?.deltas.get(pubkey.toBase58()) ?? info.lamports;
+
+            await updateAccountStatus(pubkey.toBase58(), 'reclaim_pending', Date.now(), signature);
             await batchUpdateAccountMetadata([{
                 pubkey: pubkey.toBase58(),
-                status: 'error',
-                errorMessage: e.message
+                reclaimedAmount: lamports,
+                reclaimDestination: this.destination.toBase58()
             }]);
+            await updateJournalStatus(signature, 'landed');
+
+            return { success: true, lamports: lamports / 1e9 };
+
+        } catch (e: any) {
+            await this.recordFailure(pubkey, e.message);
             return { success: false, lamports: 0 };
         }
     }
 }
+
+/**
+ * Trim an oldest-first account list to the --max-accounts / --max-sol caps
+ */
+export function capSelection(accounts: SponsoredAccount[], selection: ReclaimSelection): SponsoredAccount[] {
+    let capped = accounts;
+    if (selection.maxAccounts !== undefined) capped = capped.slice(0, selection.maxAccounts);
+
+    if (selection.maxLamports !== undefined) {
+        let total = 0;
+        capped = capped.filter(acc => {
+            if (total + acc.rentPaid > selection.maxLamports!) return false;
+            total += acc.rentPaid;
+            return true;
+        });
+    }
+
+    if (capped.length < accounts.length) {
+        console.log(`[Selection] Capped to ${capped.length} of ${accounts.length} eligible accounts.`);
+    }
+    return capped;
+}
+
+/**
+ * When each account became reclaimable: `closed_at`, else when it was first tracked.
+ * Accounts with neither are left out. Legacy rows store the first-seen time in seconds.
+ */
+function eligibilityTimes(accounts: SponsoredAccount[]): Map<string, number> {
+    const times = new Map<string, number>();
+    for (const acc of accounts) {
+        const firstSeen = acc.initialTimestamp && acc.initialTimestamp < 100_000_000_000 ? acc.initialTimestamp * 1000 : acc.initialTimestamp;
+        const since = acc.closedAt || firstSeen;
+        if (since) times.set(acc.pubkey, since);
+    }
+    return times;
+}
+
+function journalAccounts(accounts: { pubkey: PublicKey; info: AccountInfo<Buffer> }[]): JournalAccounts {
+    return accounts.map(a => ({ pubkey: a.pubkey.toBase58(), lamports: a.info.lamports }));
+}
+
+/**
+ * Extract the failing instruction index from `{ InstructionError: [index, error] }`
+ */
+function getFailedInstructionIndex(err: any): number | null {
+    if (err && typeof err === 'object' && Array.isArray(err.InstructionError)) {
+        return err.InstructionError[0];
+    }
+    return null;
+}
+
+/**
+ * Build a readable program error from simulation logs, e.g.
+ * "Non-native account can only be closed if its balance is zero (custom program error: 0xb)"
+ */
+function describeProgramError(err: any, logs: string[]): string {
+    const programLog = [...logs].reverse().find(l => l.startsWith('Program log: Error:'));
+    const failedLine = [...logs].reverse().find(l => / failed: /.test(l));
+    const cause = failedLine ? failedLine.split(' failed: ')[1] : JSON.stringify(err?.InstructionError?.[1] ?? err);
+
+    if (programLog) {
+        return `${programLog.replace('Program log: Error: ', '')} (${cause})`;
+    }
+    return cause;
+}
@@ -7,11 +7,11 @@ import {
 import fs from 'fs';
 import path from 'path';
 
-export async function generateReport(operatorAddress: string) {
+export async function generateReport(operatorAddress: string, options: { finalizedOnly?: boolean } = {}) {
     console.log(`\n📊 Generating Operator Report for ${operatorAddress}...\n`);
 
     try {
-        const stats: any = await getDetailedAnalytics(operatorAddress);
+        const stats: any = await getDetailedAnalytics(operatorAddress, options);
         const reclaimable = await getReclaimableAccounts(operatorAddress);
 
         // Calculate Efficiency Metrics
@@ -24,6 +24,10 @@ export async function generateReport(operatorAddress: string) {
 
         const reclaimableSol = reclaimable.reduce((sum, acc) => sum + acc.rentPaid, 0) / 1e9;
 
+        // What actually came back from our own closes, minus what those transactions cost
+        const grossRecovered = stats.recovered_lamports || 0;
+        const netRecovered = grossRecovered - stats.reclaim_fees_lamports;
+
         const report = `
 # 📜 KoraScan Operator Report Card
 **Date**: ${new Date().toISOString().split('T')[0]}
@@ -36,7 +40,9 @@ export async function generateReport(operatorAddress: string) {
 | Metric | Value | Grade |
 | :--- | :--- | :--- |
 | **Efficiency Score** | **${efficiency}%** | ${getGrade(parseFloat(efficiency))} |
-| **Total Reclaimed** | ${SOL(recovered)} | - |
+| **Total Reclaimed${options.finalizedOnly ? ' (Finalized)' : ''}** | ${SOL(recovered)} | - |
+| **Net Recovered** | ${SOL(netRecovered)} | - |
+| **Awaiting Finalization** | ${SOL(stats.pending_finality_lamports || 0)} (${stats.pending_finality_count} accounts) | - |
 | **Pending Reclaim** | ${reclaimableSol.toFixed(4)} SOL | - |
 | **Tx Count** | ${stats.tx_count || 0} | - |
 
@@ -47,6 +53,10 @@ export async function generateReport(operatorAddress: string) {
 *   **Total Rent Invested**: ${SOL(invested)}
 *   **Net Profit (Realized)**: ${SOL(recovered)}
 *   **Costs (Fees)**: ${SOL(stats.total_fees_lamports)}
+*   **Reclaimed by KoraScan (Gross)**: ${SOL(grossRecovered)}
+*   **Reclaim Tx Fees**: ${SOL(stats.reclaim_fees_lamports)} (Priority: ${SOL(stats.reclaim_priority_fees_lamports)})
+*   **Net Recovered**: ${SOL(netRecovered)}
+*   **Swept to Treasury**: ${SOL(stats.treasury_swept_lamports)} (${stats.treasury_transfer_count} transfers)
 *   **ROI**: ${stats.total_fees_lamports > 0 ? ((recovered / stats.total_fees_lamports) * 100).toFixed(0) : "∞"}%
 
 ---
@@ -57,6 +67,9 @@ export async function generateReport(operatorAddress: string) {
 *   **Unique Users Served**: ${stats.unique_users}
 *   **Active (Unclaimed)**: ${stats.active_count}
 *   **Locked (Unauthorized)**: ${stats.locked_count}
+*   **Frozen**: ${stats.frozen_count}
+*   **Wrapped SOL (Never Closed)**: ${stats.native_count}
+*   **Uninitialized**: ${stats.uninitialized_count}
 
 ## 🏆 Top Leak Sources (Top 5 Mints)
 ${stats.top_mints.slice(0, 5).map((m: any, i: number) => `${i + 1}. **${m.mint.slice(0, 4)}...${m.mint.slice(-4)}**: ${m.count} accounts`).join('\n')}
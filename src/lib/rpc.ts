@@ -1,4 +1,5 @@
 import { PublicKey } from '@solana/web3.js';
+import { RateLimiter } from './rate-limiter';
 
 // --- Built-in RPC Patterns ---
 const HELIUS_RPC_BASE = 'https://mainnet.helius-rpc.com/?api-key=';
@@ -7,6 +8,13 @@ const QUICKNODE_RPC_BASE = 'https://solana-mainnet.quiknode.pro/';
 const ALCHEMY_RPC_BASE = 'https://solana-mainnet.g.alchemy.com/v2/';
 const PUBLIC_RPC = 'https://api.mainnet-beta.solana.com';
 
+// Discovery requests per second across all crawlers (lowered automatically on 429s)
+const DISCOVERY_RPS = parseFloat(process.env.DISCOVERY_RPS || '10');
+if (!Number.isFinite(DISCOVERY_RPS) || DISCOVERY_RPS <= 0) {
+    throw new Error(`Invalid DISCOVERY_RPS "${process.env.DISCOVERY_RPS}" (expected a number of requests per second above 0)`);
+}
+const rateLimiter = new RateLimiter(DISCOVERY_RPS);
+
 /**
  * Universal RPC Resolver
  * Priority: Helius > Triton > Quicknode > Alchemy > Public
@@ -42,13 +50,22 @@ export interface DiscoveryTransaction {
         nativeBalanceChange: number;
         tokenBalanceChanges: any[];
     }>;
-    instructions: Array<{
-        programId: string;
-        accounts: string[];
-        data: string;
-        parsed?: any;
-        innerInstructions?: any[];
-    }>;
+    instructions: DiscoveryInstruction[];
+}
+
+export interface DiscoveryInstruction {
+    programId: string;
+    accounts: string[];
+    data: string;
+    parsed?: any;
+    // Instructions this one invoked through CPI, in execution order
+    innerInstructions?: DiscoveryInstruction[];
+}
+
+export interface ProgramAccount {
+    pubkey: string;
+    lamports: number;
+    data: Buffer;
 }
 
 /**
@@ -76,17 +93,23 @@ export class DiscoveryClient {
         }
     }
 
+    get heliusEnabled(): boolean {
+        return !!this.heliusKey;
+    }
+
     /**
-     * Internal fetch with retries 
+     * Internal fetch with retries. Every attempt takes a token from the shared rate limiter.
      */
     private async fetchWithRetry(url: string, options: RequestInit = {}, retries = 3): Promise<Response> {
         let lastError;
         for (let i = 0; i < retries; i++) {
             try {
+                await rateLimiter.acquire();
                 const response = await fetch(url, options);
                 if (response.status === 429) {
+                    rateLimiter.throttle();
                     const wait = Math.pow(2, i) * 1000;
-                    console.log(`  [Discovery] Rate limited (429). Retrying in ${wait}ms...`);
+                    console.log(`  [Discovery] Rate limited (429). Retrying in ${wait}ms at ${rateLimiter.currentRate.toFixed(1)} req/s...`);
                     await new Promise(r => setTimeout(r, wait));
                     continue;
                 }
@@ -97,6 +120,7 @@ export class DiscoveryClient {
                     const text = await response.text();
                     throw new Error(`Discovery Error (${response.status}): ${text.slice(0, 100)}`);
                 }
+                rateLimiter.recover();
                 return response;
             } catch (e: any) {
                 lastError = e;
@@ -115,6 +139,8 @@ export class DiscoveryClient {
         address: string,
         options: {
             before?: string;
+            // Stop at this signature (exclusive)
+            until?: string;
             limit?: number;
             type?: string;
             connection?: any;
@@ -128,6 +154,7 @@ export class DiscoveryClient {
                 });
 
                 if (options.before) params.append('before', options.before);
+                if (options.until) params.append('until', options.until);
                 if (options.limit) params.append('limit', options.limit.toString());
                 if (options.type) params.append('type', options.type);
 
@@ -150,67 +177,21 @@ export class DiscoveryClient {
             throw new Error('[Discovery] Standard RPC fallback requires a Connection object.');
         }
 
-        const pubkey = new PublicKey(address);
-        const sigs = await options.connection.getSignaturesForAddress(pubkey, {
+        const sigs = await this.getSignatures(address, {
             limit: options.limit || 100,
-            before: options.before
+            before: options.before,
+            until: options.until,
+            connection: options.connection
         });
 
         if (sigs.length === 0) return [];
 
+        await rateLimiter.acquire();
         const parsed = await options.connection.getParsedTransactions(sigs.map((s: any) => s.signature), {
             maxSupportedTransactionVersion: 0
         });
 
-        const mapped = parsed.filter((tx: any) => tx !== null).map((tx: any) => {
-            const instructions = tx.transaction.message.instructions.map((ix: any) => ({
-                programId: ix.programId.toBase58(),
-                accounts: ix.accounts?.map((a: any) => a.toBase58()) || [],
-                data: ix.data || '',
-                parsed: ix.parsed // Include parsed info if available
-            }));
-
-            // Attempt to detect transaction type
-            let detectedType = 'UNKNOWN';
-            const hasSetAuthority = instructions.some((ix: any) =>
-                (ix.programId === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' || ix.programId === 'TokenzQdBNbAtYpYbt9UEHJR9YWYvNf2t8S77tB39L') &&
-                ix.parsed?.type === 'setAuthority'
-            );
-
-            const hasCreateAccount = instructions.some((ix: any) =>
-                (ix.programId === 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL' || ix.programId === '11111111111111111111111111111111') &&
-                (ix.parsed?.type === 'create' || ix.parsed?.type === 'createIdempotent')
-            );
-
-            if (hasSetAuthority) detectedType = 'SET_AUTHORITY';
-            else if (hasCreateAccount) detectedType = 'CREATE_ACCOUNT';
-
-            return {
-                signature: tx.transaction.signatures[0],
-                slot: tx.slot,
-                timestamp: tx.blockTime || 0,
-                fee: tx.meta?.fee || 0,
-                feePayer: tx.transaction.message.accountKeys[0].pubkey.toBase58(),
-                type: detectedType,
-                source: instructions.some((ix: any) => ix.programId === '11111111111111111111111111111111') ? 'SYSTEM_PROGRAM' : 'SOLANA_RPC',
-                description: detectedType === 'SET_AUTHORITY' ? 'Authority changed for account' : 'Solana Transaction',
-                accountData: tx.meta?.postBalances.map((bal: any, idx: number) => {
-                    const pubkey = tx.transaction.message.accountKeys[idx].pubkey.toBase58();
-                    const tokenBalance = tx.meta?.postTokenBalances?.find((b: any) => b.accountIndex === idx);
-
-                    return {
-                        account: pubkey,
-                        nativeBalanceChange: bal - (tx.meta?.preBalances[idx] || 0),
-                        tokenBalanceChanges: tokenBalance ? [{
-                            mint: tokenBalance.mint,
-                            userWallet: tokenBalance.owner || '',
-                            rawTokenAmount: tokenBalance.uiTokenAmount
-                        }] : []
-                    };
-                }) || [],
-                instructions
-            };
-        });
+        const mapped = parsed.filter((tx: any) => tx !== null).map(mapParsedTransaction);
 
         // NOTE: We do NOT filter by type here in Standard RPC mode.
         // Standard RPC getSignaturesForAddress doesn't support type filtering.
@@ -218,6 +199,22 @@ export class DiscoveryClient {
         return mapped;
     }
 
+    /**
+     * One page of signatures for an address, newest first (standard RPC, up to 1000 per call).
+     */
+    async getSignatures(
+        address: string,
+        options: { before?: string; until?: string; limit?: number; connection: any }
+    ): Promise<Array<{ signature: string; slot: number }>> {
+        await rateLimiter.acquire();
+        const sigs = await options.connection.getSignaturesForAddress(new PublicKey(address), {
+            limit: options.limit || 1000,
+            before: options.before,
+            until: options.until
+        });
+        return sigs.map((s: any) => ({ signature: s.signature, slot: s.slot }));
+    }
+
     /**
      * Parse multiple transactions by signature (Helius only)
      */
@@ -236,18 +233,138 @@ export class DiscoveryClient {
     }
 
     /**
-     * Get Program Accounts V2 (Helius only)
+     * Get Program Accounts V2 (Helius only). Follows the pagination key until every page is read.
      */
-    async getProgramAccountsV2(programId: string, options: any = {}): Promise<any> {
+    async getProgramAccountsV2(programId: string, options: { filters?: any[]; pageSize?: number } = {}): Promise<ProgramAccount[]> {
         if (!this.heliusKey) throw new Error('[Discovery] getProgramAccountsV2 requires Helius key.');
-        const url = `${this.heliusBaseUrl}/program-accounts/${programId}?api-key=${this.heliusKey}`;
-        const response = await this.fetchWithRetry(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(options),
-        });
-        return response.json();
+        const url = `${HELIUS_RPC_BASE}${this.heliusKey}`;
+        const accounts: ProgramAccount[] = [];
+        let paginationKey: string | null = null;
+
+        do {
+            const response = await this.fetchWithRetry(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    jsonrpc: '2.0',
+                    id: 'korascan',
+                    method: 'getProgramAccountsV2',
+                    params: [programId, {
+                        encoding: 'base64',
+                        filters: options.filters || [],
+                        limit: options.pageSize || 5000,
+                        ...(paginationKey ? { paginationKey } : {})
+                    }]
+                }),
+            });
+            const body: any = await response.json();
+            if (body.error) throw new Error(`getProgramAccountsV2 failed: ${body.error.message || JSON.stringify(body.error)}`);
+
+            for (const { pubkey, account } of body.result?.accounts || []) {
+                accounts.push({ pubkey, lamports: account.lamports, data: Buffer.from(account.data[0], 'base64') });
+            }
+            paginationKey = body.result?.paginationKey || null;
+        } while (paginationKey);
+
+        return accounts;
     }
 }
 
+/**
+ * Standard RPC (jsonParsed) transaction to a DiscoveryTransaction
+ */
+export function mapParsedTransaction(tx: any): DiscoveryTransaction {
+    // CPI calls are reported per top-level instruction index
+    const inner = new Map<number, DiscoveryInstruction[]>();
+    for (const group of tx.meta?.innerInstructions || []) {
+        inner.set(group.index, group.instructions.map(mapParsedInstruction));
+    }
+    const instructions: DiscoveryInstruction[] = tx.transaction.message.instructions.map((ix: any, i: number) => ({
+        ...mapParsedInstruction(ix),
+        innerInstructions: inner.get(i) || []
+    }));
+    const callTree = instructions.flatMap(ix => [ix, ...(ix.innerInstructions || [])]);
+
+    // Attempt to detect transaction type
+    let detectedType = 'UNKNOWN';
+    const hasSetAuthority = callTree.some((ix: any) =>
+        (ix.programId === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' || ix.programId === 'TokenzQdBNbAtYpYbt9UEHJR9YWYvNf2t8S77tB39L') &&
+        ix.parsed?.type === 'setAuthority'
+    );
+
+    const hasCreateAccount = callTree.some((ix: any) =>
+        (ix.programId === 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL' || ix.programId === '11111111111111111111111111111111') &&
+        (ix.parsed?.type === 'create' || ix.parsed?.type === 'createIdempotent')
+    );
+
+    if (hasSetAuthority) detectedType = 'SET_AUTHORITY';
+    else if (hasCreateAccount) detectedType = 'CREATE_ACCOUNT';
+
+    const keys = resolveAccountKeys(tx);
+    const balances = tx.meta?.postBalances?.length;
+    // Balances that cannot be attributed are dropped: one bad response must not stall the whole page
+    const aligned = balances === undefined || keys.length === balances;
+    if (!aligned) {
+        console.warn(`[Discovery] ${tx.transaction.signatures[0]}: ${keys.length} account keys for ${balances} balances. Skipping its balance changes.`);
+    }
+
+    return {
+        signature: tx.transaction.signatures[0],
+        slot: tx.slot,
+        timestamp: tx.blockTime || 0,
+        fee: tx.meta?.fee || 0,
+        feePayer: keys[0],
+        type: detectedType,
+        source: instructions.some((ix: any) => ix.programId === '11111111111111111111111111111111') ? 'SYSTEM_PROGRAM' : 'SOLANA_RPC',
+        description: detectedType === 'SET_AUTHORITY' ? 'Authority changed for account' : 'Solana Transaction',
+        accountData: !aligned ? [] : tx.meta?.postBalances.map((bal: any, idx: number) => {
+            const pubkey = keys[idx];
+            const tokenBalance = tx.meta?.postTokenBalances?.find((b: any) => b.accountIndex === idx);
+
+            return {
+                account: pubkey,
+                nativeBalanceChange: bal - (tx.meta?.preBalances[idx] || 0),
+                tokenBalanceChanges: tokenBalance ? [{
+                    mint: tokenBalance.mint,
+                    userWallet: tokenBalance.owner || '',
+                    rawTokenAmount: tokenBalance.uiTokenAmount
+                }] : []
+            };
+        }).filter((entry: any) => entry.account !== undefined) || [],
+        instructions
+    };
+}
+
+/**
+ * Account keys in balance order: static keys, then the lookup-table writable and readonly addresses.
+ * jsonParsed responses normally list loaded addresses in accountKeys already (source 'lookupTable');
+ * when a provider leaves them out, they are appended from meta.loadedAddresses.
+ */
+function resolveAccountKeys(tx: any): string[] {
+    const keys: string[] = tx.transaction.message.accountKeys.map((k: any) => toBase58(k.pubkey ?? k));
+    const loaded = tx.meta?.loadedAddresses;
+    const loadedKeys: string[] = loaded ? [...(loaded.writable || []), ...(loaded.readonly || [])].map(toBase58) : [];
+
+    const merged = loadedKeys.every(k => keys.includes(k));
+    if (!merged) keys.push(...loadedKeys);
+    return keys;
+}
+
+// Keys arrive as PublicKey objects from web3.js and as strings in raw JSON
+function toBase58(key: any): string {
+    return typeof key === 'string' ? key : key.toBase58();
+}
+
+/**
+ * Instruction from getParsedTransactions, parsed (no accounts) or partially decoded (raw accounts and data)
+ */
+function mapParsedInstruction(ix: any): DiscoveryInstruction {
+    return {
+        programId: toBase58(ix.programId),
+        accounts: ix.accounts?.map(toBase58) || [],
+        data: ix.data || '',
+        parsed: ix.parsed // Include parsed info if available
+    };
+}
+
 export const discoveryClient = new DiscoveryClient();
@@ -0,0 +1,213 @@
+/**
+ * Pluggable Signers
+ *
+ * Everything that signs for an operator (Reclaimer, treasury sweep, lookup tables, plans)
+ * goes through the Signer interface, so the secret key can live in a file, an env var,
+ * or behind a remote signing service.
+ *
+ * operators.json entries pick the implementation per wallet:
+ *   "./keys/op1.json"                                            -> file
+ *   { "type": "file", "path": "./keys/op1.json" }                -> file
+ *   { "type": "env", "env": "OPERATOR_2_SECRET_KEY" }            -> base58 secret in env
+ *   { "type": "keystore", "path": "./keystores/<pubkey>.json" }  -> passphrase-encrypted keystore
+ *   { "type": "remote", "url": "https://signer:8080", "pubkey": "...", "apiKeyEnv": "SIGNER_API_KEY" }
+ */
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import fs from 'fs';
+import { KeystoreFile, isKeystoreFile, readKeystore, decryptKeystore, resolvePassphrase } from './keystore';
+
+export interface Signer {
+    readonly publicKey: PublicKey;
+    // Human readable source, for logs
+    readonly label: string;
+    signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+}
+
+export type SignerConfig =
+    | { type: 'file'; path: string }
+    | { type: 'env'; env: string }
+    | { type: 'keystore'; path: string }
+    | { type: 'remote'; url: string; pubkey: string; apiKey?: string; apiKeyEnv?: string };
+
+/**
+ * Local keypair held in memory (loaded from a file or env var)
+ */
+export class KeypairSigner implements Signer {
+    readonly publicKey: PublicKey;
+    readonly label: string;
+    private keypair: Keypair;
+
+    constructor(keypair: Keypair, label = 'keypair') {
+        this.keypair = keypair;
+        this.publicKey = keypair.publicKey;
+        this.label = label;
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+        if (tx instanceof VersionedTransaction) {
+            tx.sign([this.keypair]);
+        } else {
+            tx.partialSign(this.keypair);
+        }
+        return tx;
+    }
+}
+
+/**
+ * Encrypted keystore. Knows its pubkey right away, but must be unlocked before it can sign.
+ */
+export class KeystoreSigner implements Signer {
+    readonly publicKey: PublicKey;
+    readonly label: string;
+    private keystore: KeystoreFile;
+    private inner: KeypairSigner | null = null;
+
+    constructor(keystore: KeystoreFile, label = 'keystore') {
+        this.keystore = keystore;
+        this.publicKey = new PublicKey(keystore.pubkey);
+        this.label = label;
+    }
+
+    get locked(): boolean {
+        return this.inner === null;
+    }
+
+    async unlock(passphrase: string): Promise<void> {
+        this.inner = new KeypairSigner(await decryptKeystore(this.keystore, passphrase), this.label);
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+        if (!this.inner) {
+            throw new Error(`[Signer] Keystore for ${this.publicKey.toBase58()} is locked`);
+        }
+        return this.inner.signTransaction(tx);
+    }
+}
+
+/**
+ * Remote signing endpoint with the same shape as a Kora signer service:
+ * JSON-RPC `signTransaction` with a base64 transaction, returning `signed_transaction`.
+ */
+export class RemoteSigner implements Signer {
+    readonly publicKey: PublicKey;
+    readonly label: string;
+    private url: string;
+    private apiKey?: string;
+    private requestId = 0;
+
+    constructor(url: string, publicKey: PublicKey, apiKey?: string) {
+        this.url = url;
+        this.publicKey = publicKey;
+        this.apiKey = apiKey;
+        this.label = `remote (${new URL(url).host})`;
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+        const isVersioned = tx instanceof VersionedTransaction;
+        const serialized = isVersioned
+            ? Buffer.from(tx.serialize())
+            : (tx as Transaction).serialize({ requireAllSignatures: false, verifySignatures: false });
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers['x-api-key'] = this.apiKey;
+
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                id: ++this.requestId,
+                method: 'signTransaction',
+                params: { transaction: serialized.toString('base64') }
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`[Signer] Remote signer returned ${response.status}: ${(await response.text()).slice(0, 100)}`);
+        }
+
+        const body: any = await response.json();
+        if (body.error) {
+            throw new Error(`[Signer] Remote signer error: ${body.error.message || JSON.stringify(body.error)}`);
+        }
+
+        const signedB64 = body.result?.signed_transaction;
+        if (!signedB64) {
+            throw new Error('[Signer] Remote signer response is missing signed_transaction');
+        }
+
+        const raw = Buffer.from(signedB64, 'base64');
+        const signed = isVersioned ? VersionedTransaction.deserialize(raw) : Transaction.from(raw);
+        assertSameMessageSigned(tx, signed, this.publicKey);
+
+        return signed as T;
+    }
+}
+
+/**
+ * The remote side may only add our signature, never change what is being signed
+ */
+function assertSameMessageSigned(original: Transaction | VersionedTransaction, signed: Transaction | VersionedTransaction, signer: PublicKey): void {
+    let sameMessage: boolean;
+    let signature: Uint8Array | null | undefined;
+
+    if (original instanceof VersionedTransaction && signed instanceof VersionedTransaction) {
+        sameMessage = Buffer.from(original.message.serialize()).equals(Buffer.from(signed.message.serialize()));
+        const index = signed.message.staticAccountKeys.findIndex(k => k.equals(signer));
+        signature = index >= 0 ? signed.signatures[index] : null;
+    } else {
+        const legacyOriginal = original as Transaction;
+        const legacySigned = signed as Transaction;
+        sameMessage = legacyOriginal.serializeMessage().equals(legacySigned.serializeMessage());
+        signature = legacySigned.signatures.find(s => s.publicKey.equals(signer))?.signature;
+    }
+
+    if (!sameMessage) {
+        throw new Error('[Signer] Remote signer altered the transaction message. Refusing.');
+    }
+    if (!signature || signature.every(b => b === 0)) {
+        throw new Error(`[Signer] Remote signer did not sign for ${signer.toBase58()}`);
+    }
+}
+
+export function loadKeypairFile(path: string): Keypair {
+    const secretKey = JSON.parse(fs.readFileSync(path, 'utf-8'));
+    return Keypair.fromSecretKey(new Uint8Array(secretKey));
+}
+
+/**
+ * Unlock every locked keystore signer. Other signers are left as they are.
+ */
+export async function unlockSigners(signers: Signer[], options: { passphraseFile?: string } = {}): Promise<void> {
+    for (const signer of signers) {
+        if (signer instanceof KeystoreSigner && signer.locked) {
+            const passphrase = await resolvePassphrase(`${signer.publicKey.toBase58().slice(0, 8)}... (${signer.label})`, options);
+            await signer.unlock(passphrase);
+        }
+    }
+}
+
+export function createSigner(config: SignerConfig): Signer {
+    switch (config.type) {
+        case 'file': {
+            // A keystore given as a plain path is detected by its contents
+            const data = JSON.parse(fs.readFileSync(config.path, 'utf-8'));
+            if (isKeystoreFile(data)) return new KeystoreSigner(data, `keystore (${config.path})`);
+            return new KeypairSigner(Keypair.fromSecretKey(new Uint8Array(data)), `file (${config.path})`);
+        }
+        case 'keystore':
+            return new KeystoreSigner(readKeystore(config.path), `keystore (${config.path})`);
+        case 'env': {
+            const secret = process.env[config.env];
+            if (!secret) throw new Error(`[Signer] Env var ${config.env} is not set`);
+            return new KeypairSigner(Keypair.fromSecretKey(bs58.decode(secret.trim())), `env (${config.env})`);
+        }
+        case 'remote': {
+            const apiKey = config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+            return new RemoteSigner(config.url, new PublicKey(config.pubkey), apiKey);
+        }
+        default:
+            throw new Error(`[Signer] Unknown signer type: ${(config as any).type}`);
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Token-2022 Extension Parsing
+ *
+ * Token-2022 accounts carry TLV extensions after the 165-byte base layout (plus one account-type byte).
+ * Only the extensions that change whether and how an account can be closed are interpreted here.
+ */
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import {
+    ACCOUNT_SIZE,
+    MULTISIG_SIZE,
+    AccountType,
+    ExtensionType,
+    TOKEN_2022_PROGRAM_ID,
+    unpackAccount,
+    getExtensionTypes,
+    getExtensionData,
+    getTransferFeeAmount,
+    getCpiGuard
+} from '@solana/spl-token';
+
+// ConfidentialTransferAccount: approved (1) + ElGamal pubkey (32), then pending lo/hi and available balances (64 each)
+const CONFIDENTIAL_BALANCES_OFFSET = 33;
+const CONFIDENTIAL_BALANCES_SIZE = 64 * 3;
+
+export interface TokenAccountExtensions {
+    types: ExtensionType[];
+    // Transfer fees withheld in the account. Close fails until they are harvested to the mint.
+    withheldAmount: bigint;
+    // null when the account has no confidential transfer extension
+    confidentialTransfer: { closable: boolean } | null;
+    immutableOwner: boolean;
+    cpiGuardLocked: boolean;
+    nonTransferable: boolean;
+}
+
+/**
+ * True when the data is a token account (and not a mint or multisig owned by the same program)
+ */
+export function isTokenAccountData(data: Buffer): boolean {
+    if (data.length === ACCOUNT_SIZE) return true;
+    return data.length > ACCOUNT_SIZE && data.length !== MULTISIG_SIZE && data[ACCOUNT_SIZE] === AccountType.Account;
+}
+
+/**
+ * Parse the extensions of a Token-2022 account. Returns null for classic token accounts.
+ */
+export function parseTokenAccountExtensions(address: PublicKey, info: AccountInfo<Buffer>): TokenAccountExtensions | null {
+    if (!info.owner.equals(TOKEN_2022_PROGRAM_ID) || info.data.length <= ACCOUNT_SIZE) return null;
+
+    const account = unpackAccount(address, info, TOKEN_2022_PROGRAM_ID);
+    const types = getExtensionTypes(account.tlvData);
+
+    let confidentialTransfer: TokenAccountExtensions['confidentialTransfer'] = null;
+    const confidential = getExtensionData(ExtensionType.ConfidentialTransferAccount, account.tlvData);
+    if (confidential) {
+        const balances = confidential.subarray(CONFIDENTIAL_BALANCES_OFFSET, CONFIDENTIAL_BALANCES_OFFSET + CONFIDENTIAL_BALANCES_SIZE);
+        // Zeroed ciphertexts mean the owner emptied the confidential balance
+        confidentialTransfer = { closable: balances.every(b => b === 0) };
+    }
+
+    return {
+        types,
+        withheldAmount: getTransferFeeAmount(account)?.withheldAmount ?? 0n,
+        confidentialTransfer,
+        immutableOwner: types.includes(ExtensionType.ImmutableOwner),
+        cpiGuardLocked: getCpiGuard(account)?.lockCpi ?? false,
+        nonTransferable: types.includes(ExtensionType.NonTransferableAccount)
+    };
+}
+
+/**
+ * Why the extensions prevent a close, or null if they don't.
+ * Withheld fees are not a blocker: they are harvested to the mint in the close transaction.
+ */
+export function getExtensionCloseBlocker(extensions: TokenAccountExtensions | null): string | null {
+    if (extensions?.confidentialTransfer && !extensions.confidentialTransfer.closable) {
+        return 'confidential_balance_nonzero';
+    }
+    return null;
+}
+
+/**
+ * Short labels for logs and the database
+ */
+export function describeExtensions(extensions: TokenAccountExtensions | null): string[] {
+    if (!extensions) return [];
+    const labels: string[] = [];
+    if (extensions.types.includes(ExtensionType.TransferFeeAmount)) labels.push(`transfer_fee(withheld=${extensions.withheldAmount})`);
+    if (extensions.confidentialTransfer) labels.push(`confidential_transfer(${extensions.confidentialTransfer.closable ? 'empty' : 'balance'})`);
+    if (extensions.immutableOwner) labels.push('immutable_owner');
+    if (extensions.cpiGuardLocked) labels.push('cpi_guard');
+    if (extensions.nonTransferable) labels.push('non_transferable');
+    return labels;
+}
@@ -0,0 +1,85 @@
+/**
+ * Treasury Sweep Rules
+ *
+ * Profit above a reserve is forwarded from the operator hot wallet to one or more treasury wallets.
+ * - TREASURY_SPLITS: percentage splits, e.g. "ADDR_A:70,ADDR_B:30" (TREASURY_WALLET alone sends 100% to one wallet)
+ * - TREASURY_MIN_SOL: hot wallet balance that triggers a sweep
+ * - TREASURY_RESERVE_DAYS: the reserve left behind is the fees paid over this many past days,
+ *   so the wallet keeps funding the same burn rate for as long again
+ * - TREASURY_RESERVE_MIN_SOL: the reserve never goes below this
+ * - TREASURY_MIN_SWEEP_SOL: sweeps smaller than this are skipped
+ */
+import { PublicKey } from '@solana/web3.js';
+
+const TREASURY_WALLET = process.env.TREASURY_WALLET;
+const TREASURY_SPLITS = process.env.TREASURY_SPLITS;
+export const TREASURY_MIN_SOL = process.env.TREASURY_MIN_SOL ? parseFloat(process.env.TREASURY_MIN_SOL) : 0.5;
+export const TREASURY_RESERVE_DAYS = parseFloat(process.env.TREASURY_RESERVE_DAYS || '7');
+const TREASURY_RESERVE_MIN_SOL = parseFloat(process.env.TREASURY_RESERVE_MIN_SOL || '0.1');
+const TREASURY_MIN_SWEEP_SOL = process.env.TREASURY_MIN_SWEEP_SOL ? parseFloat(process.env.TREASURY_MIN_SWEEP_SOL) : 0;
+
+export interface TreasurySplit {
+    destination: PublicKey;
+    percent: number;
+}
+
+export interface TreasurySweepPlan {
+    reserveLamports: number;
+    transfers: { destination: PublicKey; lamports: number }[];
+    // Set when nothing should be sent
+    skipReason?: string;
+}
+
+/**
+ * Destinations from TREASURY_SPLITS, or TREASURY_WALLET at 100%. Empty when sweeping is off.
+ * Throws on a malformed configuration.
+ */
+export function loadTreasurySplits(): TreasurySplit[] {
+    if (!TREASURY_SPLITS) {
+        return TREASURY_WALLET ? [{ destination: new PublicKey(TREASURY_WALLET), percent: 100 }] : [];
+    }
+
+    const splits = TREASURY_SPLITS.split(',').map(entry => {
+        const [address, percent] = entry.trim().split(':');
+        const value = parseFloat(percent);
+        if (!address || !(value > 0)) throw new Error(`Invalid TREASURY_SPLITS entry "${entry.trim()}" (expected ADDRESS:PERCENT)`);
+        return { destination: new PublicKey(address), percent: value };
+    });
+
+    const total = splits.reduce((sum, s) => sum + s.percent, 0);
+    if (Math.abs(total - 100) > 1e-9) throw new Error(`TREASURY_SPLITS percentages add up to ${total}, expected 100`);
+
+    return splits;
+}
+
+export function describeTreasuryConfig(splits: TreasurySplit[]): string {
+    const destinations = splits.map(s => `${s.destination.toBase58()} (${s.percent}%)`).join(', ');
+    const minSweep = TREASURY_MIN_SWEEP_SOL > 0 ? `, min sweep ${TREASURY_MIN_SWEEP_SOL} SOL` : '';
+    return `${destinations} | Trigger: ${TREASURY_MIN_SOL} SOL, reserve ${TREASURY_RESERVE_DAYS}d of fees (min ${TREASURY_RESERVE_MIN_SOL} SOL)${minSweep}`;
+}
+
+/**
+ * Split everything above the reserve across the destinations. The last one takes the rounding remainder.
+ */
+export function planTreasurySweep(balanceLamports: number, recentFeesLamports: number, splits: TreasurySplit[]): TreasurySweepPlan {
+    const reserveLamports = Math.max(Math.floor(TREASURY_RESERVE_MIN_SOL * 1e9), recentFeesLamports);
+    const sweepable = balanceLamports - reserveLamports;
+
+    if (sweepable <= 0) {
+        return { reserveLamports, transfers: [], skipReason: `Balance ${(balanceLamports / 1e9).toFixed(4)} SOL is within the ${(reserveLamports / 1e9).toFixed(4)} SOL reserve` };
+    }
+    if (sweepable < TREASURY_MIN_SWEEP_SOL * 1e9) {
+        return { reserveLamports, transfers: [], skipReason: `${(sweepable / 1e9).toFixed(4)} SOL above reserve is below the ${TREASURY_MIN_SWEEP_SOL} SOL minimum sweep` };
+    }
+
+    let allocated = 0;
+    const transfers = splits.map((split, i) => {
+        const lamports = i === splits.length - 1
+            ? sweepable - allocated
+            : Math.floor(sweepable * split.percent / 100);
+        allocated += lamports;
+        return { destination: split.destination, lamports };
+    }).filter(t => t.lamports > 0);
+
+    return { reserveLamports, transfers };
+}
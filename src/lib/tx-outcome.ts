@@ -0,0 +1,73 @@
+/**
+ * Landed Transaction Outcome
+ *
+ * Reads the meta of a confirmed transaction: the fee actually charged and how many lamports
+ * each account gave up. Reclaim records use these instead of pre-fetched balances and fee estimates.
+ */
+import { Connection, ComputeBudgetProgram, VersionedTransactionResponse } from '@solana/web3.js';
+import { baseFeeLamports } from './fee-estimator';
+
+// SetComputeUnitPrice discriminator in the Compute Budget program
+const SET_COMPUTE_UNIT_PRICE = 3;
+// The RPC may not serve a just-confirmed transaction on the first try
+const FETCH_ATTEMPTS = 5;
+const FETCH_RETRY_DELAY_MS = 1000;
+
+export interface TransactionOutcome {
+    signature: string;
+    slot: number;
+    feeLamports: number;
+    // Part of the fee above the base fee per signature
+    priorityFeeLamports: number;
+    computeUnitPriceMicroLamports: number;
+    // Lamports each account lost in the transaction (pre - post), for accounts whose balance went down
+    deltas: Map<string, number>;
+}
+
+export async function fetchTransactionOutcome(connection: Connection, signature: string): Promise<TransactionOutcome | null> {
+    for (let attempt = 0; attempt < FETCH_ATTEMPTS; attempt++) {
+        try {
+            const tx = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+            if (tx?.meta) return parseOutcome(signature, tx);
+        } catch (e: any) {
+            if (attempt === FETCH_ATTEMPTS - 1) {
+                console.warn(`[Outcome] Failed to fetch ${signature.slice(0, 8)}...: ${e.message}`);
+                return null;
+            }
+        }
+        await new Promise(r => setTimeout(r, FETCH_RETRY_DELAY_MS));
+    }
+
+    console.warn(`[Outcome] ${signature.slice(0, 8)}... not available from the RPC yet, falling back to estimates.`);
+    return null;
+}
+
+function parseOutcome(signature: string, tx: VersionedTransactionResponse): TransactionOutcome {
+    const meta = tx.meta!;
+    const message = tx.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+
+    const deltas = new Map<string, number>();
+    for (let i = 0; i < keys.length; i++) {
+        const delta = meta.preBalances[i] - meta.postBalances[i];
+        if (delta > 0) deltas.set(keys.get(i)!.toBase58(), delta);
+    }
+
+    let computeUnitPriceMicroLamports = 0;
+    for (const ix of message.compiledInstructions) {
+        const data = Buffer.from(ix.data);
+        if (keys.get(ix.programIdIndex)?.equals(ComputeBudgetProgram.programId) && data[0] === SET_COMPUTE_UNIT_PRICE) {
+            computeUnitPriceMicroLamports = Number(data.readBigUInt64LE(1));
+        }
+    }
+
+    const base = baseFeeLamports(tx.transaction.signatures.length);
+    return {
+        signature,
+        slot: tx.slot,
+        feeLamports: meta.fee,
+        priorityFeeLamports: Math.max(0, meta.fee - base),
+        computeUnitPriceMicroLamports,
+        deltas
+    };
+}
@@ -0,0 +1,164 @@
+/**
+ * Builds token accounts offline and checks the close safety rules: frozen, uninitialized and wrapped-SOL
+ * accounts holding more than their rent reserve are never closed, and of the Token-2022 extensions only a
+ * confidential balance blocks a close (withheld transfer fees are harvested in the close transaction).
+ * Exits non-zero on any failure.
+ *
+ * Usage: npm run check:account-safety
+ */
+import { AccountInfo, Keypair, PublicKey } from '@solana/web3.js';
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    AccountState,
+    AccountType,
+    ExtensionType,
+    RawAccount,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import { AccountSafetyStatus, classifyAccountSafety } from '../lib/analyzer';
+import { getExtensionCloseBlocker, parseTokenAccountExtensions } from '../lib/token-extensions';
+
+const RENT_LAMPORTS = 2_039_280;
+const CONFIDENTIAL_ACCOUNT_SIZE = 295;
+// Offset of the pending/available balances inside the ConfidentialTransferAccount extension
+const CONFIDENTIAL_BALANCES_OFFSET = 33;
+
+interface AccountOptions {
+    state?: AccountState;
+    // Rent reserve of a wrapped SOL account; omitted for regular token accounts
+    nativeReserve?: number;
+}
+
+function buildAccount(options: AccountOptions = {}): RawAccount {
+    return {
+        mint: Keypair.generate().publicKey,
+        owner: Keypair.generate().publicKey,
+        amount: 0n,
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: options.state ?? AccountState.Initialized,
+        isNativeOption: options.nativeReserve === undefined ? 0 : 1,
+        isNative: BigInt(options.nativeReserve ?? 0),
+        delegatedAmount: 0n,
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default
+    };
+}
+
+interface Extension {
+    type: ExtensionType;
+    data: Buffer;
+}
+
+function buildToken2022Info(extensions: Extension[]): AccountInfo<Buffer> {
+    const base = Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode(buildAccount(), base);
+    const tlv = extensions.map(e => {
+        const header = Buffer.alloc(4);
+        header.writeUInt16LE(e.type, 0);
+        header.writeUInt16LE(e.data.length, 2);
+        return Buffer.concat([header, e.data]);
+    });
+    return {
+        data: Buffer.concat([base, Buffer.from([AccountType.Account]), ...tlv]),
+        executable: false,
+        lamports: RENT_LAMPORTS,
+        owner: TOKEN_2022_PROGRAM_ID,
+        rentEpoch: 0
+    };
+}
+
+function withheldFees(amount: bigint): Extension {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64LE(amount);
+    return { type: ExtensionType.TransferFeeAmount, data };
+}
+
+function confidentialTransfer(balance: boolean): Extension {
+    const data = Buffer.alloc(CONFIDENTIAL_ACCOUNT_SIZE);
+    data[0] = 1;
+    if (balance) data[CONFIDENTIAL_BALANCES_OFFSET + 10] = 1;
+    return { type: ExtensionType.ConfidentialTransferAccount, data };
+}
+
+interface SafetyCase {
+    name: string;
+    account: RawAccount;
+    lamports: number;
+    // null when the account may be closed
+    expected: AccountSafetyStatus | null;
+}
+
+const safetyCases: SafetyCase[] = [
+    { name: 'empty initialized account', account: buildAccount(), lamports: RENT_LAMPORTS, expected: null },
+    { name: 'frozen account', account: buildAccount({ state: AccountState.Frozen }), lamports: RENT_LAMPORTS, expected: 'frozen' },
+    { name: 'uninitialized account', account: buildAccount({ state: AccountState.Uninitialized }), lamports: RENT_LAMPORTS, expected: 'uninitialized' },
+    { name: 'wrapped SOL at its rent reserve', account: buildAccount({ nativeReserve: RENT_LAMPORTS }), lamports: RENT_LAMPORTS, expected: null },
+    { name: 'wrapped SOL above its rent reserve', account: buildAccount({ nativeReserve: RENT_LAMPORTS }), lamports: RENT_LAMPORTS + 1, expected: 'native' },
+    {
+        name: 'frozen wrapped SOL above its rent reserve',
+        account: buildAccount({ state: AccountState.Frozen, nativeReserve: RENT_LAMPORTS }),
+        lamports: RENT_LAMPORTS + 5_000,
+        expected: 'native'
+    }
+];
+
+interface ExtensionCase {
+    name: string;
+    info: AccountInfo<Buffer>;
+    withheldAmount: bigint;
+    // Expected close blocker, null when the account may be closed
+    blocker: string | null;
+}
+
+const extensionCases: ExtensionCase[] = [
+    { name: 'Token-2022 account without extensions', info: buildToken2022Info([]), withheldAmount: 0n, blocker: null },
+    { name: 'withheld transfer fees', info: buildToken2022Info([withheldFees(1_234n)]), withheldAmount: 1_234n, blocker: null },
+    { name: 'emptied confidential balance', info: buildToken2022Info([confidentialTransfer(false)]), withheldAmount: 0n, blocker: null },
+    {
+        name: 'confidential balance alongside withheld fees',
+        info: buildToken2022Info([withheldFees(7n), confidentialTransfer(true)]),
+        withheldAmount: 7n,
+        blocker: 'confidential_balance_nonzero'
+    }
+];
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+async function main() {
+    const failures: string[] = [];
+
+    for (const c of safetyCases) {
+        const safety = classifyAccountSafety(c.account, c.lamports);
+        check(c.name, failures, (safety?.status ?? null) === c.expected, `expected ${c.expected ?? 'closable'}, got ${safety?.status ?? 'closable'}`);
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    // Classic token accounts carry no extensions
+    const classic = 'classic token account';
+    const classicInfo = { ...buildToken2022Info([]), data: Buffer.alloc(ACCOUNT_SIZE), owner: TOKEN_PROGRAM_ID };
+    check(classic, failures, parseTokenAccountExtensions(Keypair.generate().publicKey, classicInfo) === null, 'parsed extensions');
+    console.log(`${failures.some(f => f.startsWith(classic)) ? '❌' : '✅'} ${classic}`);
+
+    for (const c of extensionCases) {
+        const extensions = parseTokenAccountExtensions(Keypair.generate().publicKey, c.info);
+        check(c.name, failures, extensions?.withheldAmount === c.withheldAmount, `withheld ${extensions?.withheldAmount}, expected ${c.withheldAmount}`);
+        const blocker = getExtensionCloseBlocker(extensions);
+        check(c.name, failures, blocker === c.blocker, `blocker ${blocker ?? 'none'}, expected ${c.blocker ?? 'none'}`);
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main().catch(e => {
+    console.error(`❌ ${e.message}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+/**
+ * Replays the jsonParsed fixtures in fixtures/alt-transactions.json through the standard RPC parser
+ * and the Discoverer. Checks that balances line up with lookup-table addresses and that the created
+ * accounts resolve to the expected owner and mint. Exits non-zero on any failure.
+ *
+ * Usage: npm run check:alt-fixtures
+ */
+import { Connection, PublicKey } from '@solana/web3.js';
+import fs from 'fs';
+import path from 'path';
+import { mapParsedTransaction } from '../lib/rpc';
+import { Discoverer, DiscoveredAccount } from '../lib/discoverer';
+
+interface AltFixture {
+    name: string;
+    operator: string;
+    // getParsedTransaction response as returned by the RPC
+    transaction: { meta: { postBalances: number[] } };
+    expected: {
+        // Lamport change per account
+        accountData: Record<string, number>;
+        discovered: Array<Pick<DiscoveredAccount, 'pubkey' | 'userWallet' | 'mint' | 'type'>>;
+        // Keys and balances cannot be lined up: the parser must drop the balance changes instead of misattributing them
+        unattributed?: boolean;
+    };
+}
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+function replay(fixture: AltFixture, connection: Connection, failures: string[]) {
+    const tx = mapParsedTransaction(fixture.transaction);
+    const { expected } = fixture;
+
+    check(fixture.name, failures, tx.feePayer === fixture.operator, `fee payer ${tx.feePayer}`);
+    const wantEntries = expected.unattributed ? 0 : fixture.transaction.meta.postBalances.length;
+    check(fixture.name, failures, tx.accountData.length === wantEntries,
+        `${tx.accountData.length} accountData entries, expected ${wantEntries} for ${fixture.transaction.meta.postBalances.length} balances`);
+
+    for (const [account, change] of Object.entries(expected.accountData)) {
+        const entry = tx.accountData.find(a => a.account === account);
+        check(fixture.name, failures, entry?.nativeBalanceChange === change, `${account} changed by ${entry?.nativeBalanceChange}, expected ${change}`);
+    }
+
+    const discoverer = new Discoverer(connection, new PublicKey(fixture.operator));
+    const found = discoverer.processTransaction(tx);
+    check(fixture.name, failures, found.length === expected.discovered.length, `discovered ${found.length} accounts, expected ${expected.discovered.length}`);
+
+    for (const want of expected.discovered) {
+        const got = found.find(a => a.pubkey === want.pubkey);
+        check(fixture.name, failures, !!got && got.userWallet === want.userWallet && got.mint === want.mint && got.type === want.type,
+            `${want.pubkey} resolved to ${got ? `${got.type} owner ${got.userWallet} mint ${got.mint}` : 'nothing'}`);
+    }
+}
+
+async function main() {
+    // No requests are sent: only the offline parsing paths are exercised
+    const connection = new Connection('http://127.0.0.1:8899');
+    const failures: string[] = [];
+    const fixtures: AltFixture[] = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'alt-transactions.json'), 'utf-8'));
+
+    for (const fixture of fixtures) {
+        try {
+            replay(fixture, connection, failures);
+        } catch (e: any) {
+            failures.push(`${fixture.name}: threw ${e.message}`);
+        }
+        console.log(`${failures.some(f => f.startsWith(fixture.name)) ? '❌' : '✅'} ${fixture.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main().catch(e => {
+    console.error(`❌ ${e.message}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,170 @@
+/**
+ * Feeds SetAuthority transactions (parsed and raw) for tracked accounts through the Discoverer against a throwaway
+ * operator database, and checks how the latest close authority resolves: an account whose authority moves away
+ * after being gained is locked with the new holder as reason, one handed back is re-verified, an older gain crawled
+ * after a newer move leaves the account locked, and owner changes or already reclaimed accounts are left alone.
+ * Exits non-zero on any failure.
+ *
+ * Usage: npm run check:authority-history
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bs58 from 'bs58';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { DiscoveryInstruction, DiscoveryTransaction } from '../lib/rpc';
+
+const dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'korascan-authority-'));
+process.env.LOCAL_DB_DIR = dbDir;
+
+const SET_AUTHORITY = 6;
+const CLOSE_ACCOUNT_AUTHORITY = 3;
+const ACCOUNT_OWNER_AUTHORITY = 2;
+
+const operator = Keypair.generate().publicKey.toBase58();
+const other = Keypair.generate().publicKey.toBase58();
+
+function newAddress(): string {
+    return Keypair.generate().publicKey.toBase58();
+}
+
+function parsedSetAuthority(account: string, authority: string, newAuthority: string | null, authorityType = 'closeAccount'): DiscoveryInstruction {
+    return {
+        programId: TOKEN_PROGRAM_ID.toBase58(),
+        accounts: [],
+        data: '',
+        parsed: { type: 'setAuthority', info: { account, authorityType, authority, newAuthority } }
+    };
+}
+
+// Raw layout: [6, authority type, option tag, new authority(32)], accounts [account, current authority]
+function rawSetAuthority(account: string, authority: string, newAuthority: string | null, authorityType = CLOSE_ACCOUNT_AUTHORITY): DiscoveryInstruction {
+    const data = newAuthority
+        ? Buffer.concat([Buffer.from([SET_AUTHORITY, authorityType, 1]), new PublicKey(newAuthority).toBuffer()])
+        : Buffer.from([SET_AUTHORITY, authorityType, 0]);
+    return { programId: TOKEN_PROGRAM_ID.toBase58(), accounts: [account, authority], data: bs58.encode(data) };
+}
+
+function transaction(slot: number, instruction: DiscoveryInstruction): DiscoveryTransaction {
+    return {
+        signature: bs58.encode(Keypair.generate().secretKey),
+        slot,
+        timestamp: 1_700_000_000 + slot,
+        fee: 5000,
+        feePayer: operator,
+        type: 'SET_AUTHORITY',
+        source: '',
+        description: '',
+        accountData: [],
+        instructions: [instruction]
+    };
+}
+
+interface HistoryCase {
+    name: string;
+    initialStatus: string;
+    // Transaction batches, processed in order as separate crawl pages
+    pages: (account: string) => DiscoveryTransaction[][];
+    status: string;
+    reason?: string;
+}
+
+const cases: HistoryCase[] = [
+    {
+        name: 'authority moved away after being gained',
+        initialStatus: 'active',
+        pages: account => [[transaction(100, parsedSetAuthority(account, other, operator))], [transaction(200, parsedSetAuthority(account, operator, other))]],
+        status: 'locked',
+        reason: `authority_transferred: ${other}`
+    },
+    {
+        name: 'gain and move in one page (raw)',
+        initialStatus: 'active',
+        pages: account => [[transaction(100, rawSetAuthority(account, other, operator)), transaction(200, rawSetAuthority(account, operator, other))]],
+        status: 'locked',
+        reason: `authority_transferred: ${other}`
+    },
+    {
+        name: 'authority removed (raw)',
+        initialStatus: 'reclaimable',
+        pages: account => [[transaction(200, rawSetAuthority(account, operator, null))]],
+        status: 'locked',
+        reason: 'authority_removed'
+    },
+    {
+        name: 'handed back after moving away',
+        initialStatus: 'active',
+        pages: account => [[transaction(200, parsedSetAuthority(account, operator, other))], [transaction(300, rawSetAuthority(account, other, operator))]],
+        status: 'active'
+    },
+    {
+        name: 'older gain crawled after a newer move',
+        initialStatus: 'active',
+        pages: account => [[transaction(200, parsedSetAuthority(account, operator, other))], [transaction(100, parsedSetAuthority(account, other, operator))]],
+        status: 'locked',
+        reason: `authority_transferred: ${other}`
+    },
+    {
+        name: 'owner change only',
+        initialStatus: 'active',
+        pages: account => [[transaction(200, rawSetAuthority(account, operator, other, ACCOUNT_OWNER_AUTHORITY))]],
+        status: 'active'
+    },
+    {
+        name: 'already reclaimed account',
+        initialStatus: 'reclaimed',
+        pages: account => [[transaction(200, parsedSetAuthority(account, operator, other))]],
+        status: 'reclaimed'
+    }
+];
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+async function main() {
+    const database = await import('../lib/database');
+    const { Discoverer } = await import('../lib/discoverer');
+    // No requests are sent: every account is already tracked, so nothing is fetched on-chain
+    const discoverer = new Discoverer(new Connection('http://127.0.0.1:8899'), new PublicKey(operator));
+    const failures: string[] = [];
+
+    await database.initDbForOperator(operator);
+
+    for (const c of cases) {
+        const account = newAddress();
+        await database.upsertSponsoredAccount({
+            pubkey: account,
+            operator,
+            userWallet: newAddress(),
+            mint: newAddress(),
+            type: 'token',
+            rentPaid: 2_039_280,
+            signature: '',
+            slot: 50,
+            status: c.initialStatus
+        });
+
+        for (const page of c.pages(account)) {
+            await discoverer.trackAuthorityChanges(page);
+        }
+
+        const [stored] = await database.getAccountsByPubkeys(operator, [account]);
+        check(c.name, failures, stored?.status === c.status, `status ${stored?.status}, expected ${c.status}`);
+        if (c.reason) check(c.name, failures, stored?.statusReason === c.reason, `reason ${stored?.statusReason}, expected ${c.reason}`);
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => fs.rmSync(dbDir, { recursive: true, force: true }));
@@ -0,0 +1,101 @@
+/**
+ * Runs the circuit breaker against a throwaway operator database seeded with past reclaims and checks each rule:
+ * the single-batch cap, the rent anomaly multiple and the hourly/daily rolling windows. Also checks that a trip
+ * is persisted, blocks later batches (including from a fresh breaker, as after a restart) until `safety reset`,
+ * and that dry-run trips are not stored. Exits non-zero on any failure.
+ *
+ * Usage: npm run check:circuit-breaker
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { ACCOUNT_SIZE } from '@solana/spl-token';
+
+const SOL = 1_000_000_000;
+// Rules are read from the environment when the modules load
+const dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'korascan-breaker-'));
+process.env.LOCAL_DB_DIR = dbDir;
+process.env.RECLAIM_CIRCUIT_BREAKER_SOL = '1';
+process.env.RECLAIM_HOURLY_CAP_SOL = '0.05';
+process.env.RECLAIM_DAILY_CAP_SOL = '0.1';
+process.env.RECLAIM_ANOMALY_RENT_MULTIPLE = '3';
+delete process.env.DISCORD_WEBHOOK_URL;
+
+const operator = Keypair.generate().publicKey.toBase58();
+
+function batch(count: number, lamports: number) {
+    return Array.from({ length: count }, () => ({ pubkey: Keypair.generate().publicKey.toBase58(), lamports, dataLength: ACCOUNT_SIZE }));
+}
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+async function main() {
+    const { initDbForOperator, batchUpsertAccounts, getActiveSafetyTrip, resetSafetyTrips } = await import('../lib/database');
+    const { CircuitBreaker, rentExemptMinimum } = await import('../lib/circuit-breaker');
+    const failures: string[] = [];
+
+    await initDbForOperator(operator);
+    // 0.01 SOL reclaimed in the last hour, 0.07 SOL earlier today and 1 SOL outside both windows
+    const now = Date.now();
+    const seeded: Array<[number, number]> = [[0.01 * SOL, now - 30 * 60 * 1000], [0.07 * SOL, now - 5 * 60 * 60 * 1000], [1 * SOL, now - 2 * 24 * 60 * 60 * 1000]];
+    await batchUpsertAccounts(seeded.map(([amount, reclaimedAt]) => ({
+        pubkey: Keypair.generate().publicKey.toBase58(),
+        operator,
+        userWallet: Keypair.generate().publicKey.toBase58(),
+        mint: Keypair.generate().publicKey.toBase58(),
+        type: 'token',
+        rentPaid: amount,
+        signature: '',
+        slot: 0,
+        status: 'reclaimed',
+        reclaimedAt,
+        reclaimedAmount: amount
+    })));
+
+    const rent = rentExemptMinimum(ACCOUNT_SIZE);
+    const anomalous = batch(1, rent * 4)[0];
+    const cases: Array<{ name: string; accounts: ReturnType<typeof batch>; rule: string | null }> = [
+        { name: 'small batch within every rule', accounts: batch(2, 0.002 * SOL), rule: null },
+        { name: 'account above the rent multiple', accounts: [...batch(2, rent), anomalous], rule: 'anomaly' },
+        { name: 'batch above the single-batch cap', accounts: batch(201, 0.005 * SOL), rule: 'batch_cap' },
+        { name: 'batch that breaks the hourly window', accounts: batch(9, 0.005 * SOL), rule: 'hourly_cap' },
+        { name: 'batch that only breaks the daily window', accounts: batch(6, 0.005 * SOL), rule: 'daily_cap' }
+    ];
+
+    const dryRun = new CircuitBreaker(operator, { dryRun: true });
+    for (const c of cases) {
+        const trip = await dryRun.check(c.accounts);
+        check(c.name, failures, (trip?.rule ?? null) === c.rule, `expected ${c.rule ?? 'no trip'}, got ${trip?.rule ?? 'no trip'}`);
+        if (c.rule === 'anomaly') check(c.name, failures, trip?.account === anomalous.pubkey, `tripped on ${trip?.account}, expected ${anomalous.pubkey}`);
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    let name = 'dry-run trips are not stored';
+    check(name, failures, (await getActiveSafetyTrip(operator)) === null, 'found an active trip');
+    console.log(`${failures.some(f => f.startsWith(name)) ? '❌' : '✅'} ${name}`);
+
+    name = 'trip blocks later batches until reset';
+    const live = new CircuitBreaker(operator);
+    const tripped = await live.check([anomalous]);
+    check(name, failures, tripped?.rule === 'anomaly' && tripped.id > 0, `expected a stored anomaly trip, got ${tripped?.rule ?? 'no trip'}`);
+    check(name, failures, (await live.check(batch(1, rent)))?.id === tripped?.id, 'a clean batch was not blocked');
+    check(name, failures, (await new CircuitBreaker(operator).check(batch(1, rent)))?.id === tripped?.id, 'a fresh breaker did not see the trip');
+    check(name, failures, (await resetSafetyTrips(operator, 'check-circuit-breaker')) === 1, 'reset did not clear exactly one trip');
+    check(name, failures, (await live.check(batch(1, rent))) === null, 'a clean batch is still blocked after reset');
+    console.log(`${failures.some(f => f.startsWith(name)) ? '❌' : '✅'} ${name}`);
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => fs.rmSync(dbDir, { recursive: true, force: true }));
@@ -0,0 +1,158 @@
+/**
+ * Builds a reclaim plan offline and checks that sign-plan signs it as planned and refuses every kind of
+ * tampering: edited content, a rewritten close destination, a foreign destination, an injected instruction,
+ * a missing nonce advance, swapped accounts and the wrong key. Exits non-zero on any failure.
+ *
+ * Usage: npm run check:plan-signing
+ */
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { createCloseAccountInstruction, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { ReclaimPlan, hashPlan, signReclaimPlan } from '../lib/plan';
+import { KeypairSigner } from '../lib/signer';
+
+const RENT_LAMPORTS = 2_039_280;
+
+const operator = Keypair.generate();
+const attacker = Keypair.generate().publicKey;
+const nonceAccount = Keypair.generate().publicKey;
+// Any 32-byte base58 value stands in for the stored nonce
+const nonce = Keypair.generate().publicKey.toBase58();
+const accounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+
+interface TransactionOptions {
+    destination?: PublicKey;
+    closed?: PublicKey[];
+    extra?: TransactionInstruction;
+    skipAdvance?: boolean;
+}
+
+function buildTransaction(options: TransactionOptions = {}): string {
+    const tx = new Transaction({ feePayer: operator.publicKey, recentBlockhash: nonce });
+    if (!options.skipAdvance) {
+        tx.add(SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: operator.publicKey }));
+    }
+    for (const account of options.closed ?? accounts) {
+        tx.add(createCloseAccountInstruction(account, options.destination ?? operator.publicKey, operator.publicKey, [], TOKEN_PROGRAM_ID));
+    }
+    if (options.extra) tx.add(options.extra);
+    return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+}
+
+function buildPlan(unsignedTransaction = buildTransaction(), destination?: PublicKey): ReclaimPlan {
+    const plan: ReclaimPlan = {
+        version: 1,
+        operator: operator.publicKey.toBase58(),
+        ...(destination ? { destination: destination.toBase58() } : {}),
+        createdAt: new Date().toISOString(),
+        accounts: accounts.map(a => ({
+            pubkey: a.toBase58(),
+            userWallet: Keypair.generate().publicKey.toBase58(),
+            mint: Keypair.generate().publicKey.toBase58(),
+            programId: TOKEN_PROGRAM_ID.toBase58(),
+            lamports: RENT_LAMPORTS
+        })),
+        transactions: [{
+            nonceAccount: nonceAccount.toBase58(),
+            nonce,
+            accounts: accounts.map(a => a.toBase58()),
+            expectedLamports: RENT_LAMPORTS * accounts.length,
+            priorityFeeMicroLamports: 0,
+            computeUnitLimit: null,
+            unsignedTransaction
+        }],
+        hash: ''
+    };
+    plan.hash = hashPlan(plan);
+    return plan;
+}
+
+interface RefusalCase {
+    name: string;
+    plan: ReclaimPlan;
+    signer?: Keypair;
+    // Expected refusal message
+    refusal: RegExp;
+}
+
+const refusals: RefusalCase[] = [
+    {
+        name: 'content edited after hashing',
+        plan: (() => {
+            const plan = buildPlan();
+            plan.transactions[0].expectedLamports += 1;
+            return plan;
+        })(),
+        refusal: /Content hash mismatch/
+    },
+    {
+        name: 'close destination rewritten and hash recomputed',
+        plan: buildPlan(buildTransaction({ destination: attacker })),
+        refusal: /Close destination/
+    },
+    {
+        name: 'plan destination the signer does not expect',
+        plan: buildPlan(buildTransaction({ destination: attacker }), attacker),
+        refusal: /this signer expects/
+    },
+    {
+        name: 'injected transfer instruction',
+        plan: buildPlan(buildTransaction({
+            extra: SystemProgram.transfer({ fromPubkey: operator.publicKey, toPubkey: attacker, lamports: 1_000_000_000 })
+        })),
+        refusal: /Unexpected instruction/
+    },
+    {
+        name: 'missing nonce advance',
+        plan: buildPlan(buildTransaction({ skipAdvance: true })),
+        refusal: /advance nonce/
+    },
+    {
+        name: 'transaction closes other accounts than the entry lists',
+        plan: buildPlan(buildTransaction({ closed: [accounts[0], Keypair.generate().publicKey] })),
+        refusal: /do not match the plan entry/
+    },
+    {
+        name: 'signed with another key',
+        plan: buildPlan(),
+        signer: Keypair.generate(),
+        refusal: /Plan is for operator/
+    }
+];
+
+async function main() {
+    const failures: string[] = [];
+
+    // An untouched plan is signed without changing the planned message
+    const name = 'untouched plan';
+    try {
+        const plan = buildPlan();
+        const signed = await signReclaimPlan(plan, new KeypairSigner(operator), operator.publicKey);
+        const tx = Transaction.from(Buffer.from(signed.transactions[0].signedTransaction!, 'base64'));
+        const planned = Transaction.from(Buffer.from(plan.transactions[0].unsignedTransaction, 'base64'));
+        if (!tx.verifySignatures()) failures.push(`${name}: signature does not verify`);
+        if (!tx.serializeMessage().equals(planned.serializeMessage())) failures.push(`${name}: signed message differs from the plan`);
+    } catch (e: any) {
+        failures.push(`${name}: refused (${e.message})`);
+    }
+    console.log(`${failures.some(f => f.startsWith(name)) ? '❌' : '✅'} ${name}`);
+
+    for (const c of refusals) {
+        try {
+            await signReclaimPlan(c.plan, new KeypairSigner(c.signer ?? operator), operator.publicKey);
+            failures.push(`${c.name}: signed, expected a refusal`);
+        } catch (e: any) {
+            if (!c.refusal.test(e.message)) failures.push(`${c.name}: refused for the wrong reason (${e.message})`);
+        }
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main().catch(e => {
+    console.error(`❌ ${e.message}`);
+    process.exitCode = 1;
+});
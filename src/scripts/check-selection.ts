@@ -0,0 +1,101 @@
+/**
+ * Seeds a throwaway operator database with reclaimable accounts and checks the sweep selection: the mint, wallet,
+ * source, age and size filters, the oldest-first order, and the --max-accounts / --max-sol caps (which skip an
+ * account that does not fit rather than stopping at it). Exits non-zero on any failure.
+ *
+ * Usage: npm run check:selection
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+
+const dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'korascan-selection-'));
+process.env.LOCAL_DB_DIR = dbDir;
+
+const operator = Keypair.generate().publicKey.toBase58();
+const mints = [Keypair.generate().publicKey.toBase58(), Keypair.generate().publicKey.toBase58()];
+const wallets = [Keypair.generate().publicKey.toBase58(), Keypair.generate().publicKey.toBase58()];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.now();
+
+interface SeedAccount {
+    label: string;
+    mint: string;
+    userWallet: string;
+    source: string;
+    rentPaid: number;
+    ageDays: number;
+}
+
+// Listed newest first, so the oldest-first order has to come from the query
+const seeds: SeedAccount[] = [
+    { label: 'e', mint: mints[0], userWallet: wallets[0], source: 'kora', rentPaid: 2_039_280, ageDays: 1 },
+    { label: 'd', mint: mints[1], userWallet: wallets[1], source: 'kora', rentPaid: 2_039_280, ageDays: 10 },
+    { label: 'c', mint: mints[0], userWallet: wallets[1], source: 'direct', rentPaid: 2_074_080, ageDays: 20 },
+    { label: 'b', mint: mints[0], userWallet: wallets[0], source: 'kora', rentPaid: 50_000_000, ageDays: 30 },
+    { label: 'a', mint: mints[1], userWallet: wallets[0], source: 'kora', rentPaid: 2_039_280, ageDays: 40 }
+];
+const pubkeys = new Map(seeds.map(s => [Keypair.generate().publicKey.toBase58(), s.label]));
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+async function main() {
+    const { initDbForOperator, batchUpsertAccounts, getReclaimableAccounts } = await import('../lib/database');
+    const { capSelection } = await import('../lib/reclaimer');
+    const failures: string[] = [];
+
+    await initDbForOperator(operator);
+    const keys = [...pubkeys.keys()];
+    await batchUpsertAccounts(seeds.map((s, i) => ({
+        pubkey: keys[i],
+        operator,
+        userWallet: s.userWallet,
+        mint: s.mint,
+        type: 'token',
+        rentPaid: s.rentPaid,
+        signature: '',
+        slot: 0,
+        initialTimestamp: now - s.ageDays * DAY_MS,
+        sponsorshipSource: s.source,
+        status: 'reclaimable'
+    })));
+    // Not reclaimable, so never selected
+    await batchUpsertAccounts([{
+        pubkey: Keypair.generate().publicKey.toBase58(), operator, userWallet: wallets[0], mint: mints[0], type: 'token',
+        rentPaid: 2_039_280, signature: '', slot: 0, initialTimestamp: now - 50 * DAY_MS, status: 'active'
+    }]);
+
+    const cases: Array<{ name: string; selection: Parameters<typeof capSelection>[1]; expected: string }> = [
+        { name: 'no filters or caps, oldest first', selection: {}, expected: 'abcde' },
+        { name: 'mint filter', selection: { mints: [mints[0]] }, expected: 'bce' },
+        { name: 'wallet and source filters', selection: { userWallets: [wallets[0]], sources: ['kora'] }, expected: 'abe' },
+        { name: 'created before 15 days ago', selection: { createdBefore: now - 15 * DAY_MS }, expected: 'abc' },
+        { name: 'minimum size', selection: { minLamports: 2_050_000 }, expected: 'bc' },
+        { name: 'account cap keeps the oldest', selection: { maxAccounts: 2 }, expected: 'ab' },
+        { name: 'SOL cap skips an account that does not fit', selection: { maxLamports: 6_200_000 }, expected: 'acd' },
+        { name: 'account and SOL caps together', selection: { maxAccounts: 3, maxLamports: 60_000_000 }, expected: 'abc' },
+        { name: 'SOL cap below every account', selection: { maxLamports: 1_000 }, expected: '' }
+    ];
+
+    for (const c of cases) {
+        const selected = capSelection(await getReclaimableAccounts(operator, c.selection), c.selection);
+        const labels = selected.map(acc => pubkeys.get(acc.pubkey) ?? '?').join('');
+        check(c.name, failures, labels === c.expected, `selected '${labels}', expected '${c.expected}'`);
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => fs.rmSync(dbDir, { recursive: true, force: true }));
@@ -0,0 +1,93 @@
+/**
+ * Plans treasury sweeps offline and checks the reserve and split rules: nothing is sent while the balance is within
+ * the reserve (including a reserve above the balance), recent fees raise the reserve above its minimum, small sweeps
+ * are skipped, the last split takes the rounding remainder and zero-lamport transfers are dropped.
+ * Exits non-zero on any failure.
+ *
+ * Usage: npm run check:treasury-sweep
+ */
+import { Keypair } from '@solana/web3.js';
+
+const SOL = 1_000_000_000;
+const destinations = [Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey];
+// Rules are read from the environment when the module loads
+process.env.TREASURY_RESERVE_MIN_SOL = '0.1';
+process.env.TREASURY_MIN_SWEEP_SOL = '0.05';
+process.env.TREASURY_SPLITS = `${destinations[0].toBase58()}:33.3, ${destinations[1].toBase58()}:33.3, ${destinations[2].toBase58()}:33.4`;
+delete process.env.TREASURY_WALLET;
+
+interface SweepCase {
+    name: string;
+    balance: number;
+    fees: number;
+    // Percentages per destination; the configured TREASURY_SPLITS when omitted
+    percents?: number[];
+    reserve: number;
+    // Expected lamports per destination; empty when the sweep is skipped
+    transfers: number[];
+}
+
+const cases: SweepCase[] = [
+    { name: 'reserve above the balance', balance: 0.05 * SOL, fees: 0, reserve: 0.1 * SOL, transfers: [] },
+    { name: 'balance exactly at the reserve', balance: 0.1 * SOL, fees: 0, reserve: 0.1 * SOL, transfers: [] },
+    { name: 'recent fees above the balance', balance: 0.5 * SOL, fees: 0.6 * SOL, reserve: 0.6 * SOL, transfers: [] },
+    { name: 'sweep below the minimum', balance: 0.14 * SOL, fees: 0, reserve: 0.1 * SOL, transfers: [] },
+    { name: 'recent fees raise the reserve', balance: 1 * SOL, fees: 0.3 * SOL, percents: [100], reserve: 0.3 * SOL, transfers: [0.7 * SOL] },
+    {
+        name: 'last split takes the rounding remainder',
+        balance: 0.1 * SOL + 1_000_000_001,
+        fees: 0,
+        reserve: 0.1 * SOL,
+        transfers: [333_000_000, 333_000_000, 334_000_001]
+    },
+    {
+        name: 'zero-lamport share is dropped',
+        balance: 0.15 * SOL,
+        fees: 0,
+        percents: [1e-9, 100 - 1e-9],
+        reserve: 0.1 * SOL,
+        transfers: [0.05 * SOL]
+    }
+];
+
+function check(name: string, failures: string[], condition: boolean, message: string) {
+    if (!condition) failures.push(`${name}: ${message}`);
+}
+
+async function main() {
+    const { loadTreasurySplits, planTreasurySweep } = await import('../lib/treasury');
+    const failures: string[] = [];
+
+    const configured = loadTreasurySplits();
+    let name = 'configured splits';
+    check(name, failures, configured.map(s => s.percent).join(',') === '33.3,33.3,33.4', `loaded ${configured.map(s => s.percent).join(',')}`);
+    check(name, failures, configured.every((s, i) => s.destination.equals(destinations[i])), 'destinations out of order');
+    console.log(`${failures.some(f => f.startsWith(name)) ? '❌' : '✅'} ${name}`);
+
+    for (const c of cases) {
+        const splits = c.percents
+            ? c.percents.map((percent, i) => ({ destination: destinations[i], percent }))
+            : configured;
+        const plan = planTreasurySweep(c.balance, c.fees, splits);
+        const lamports = plan.transfers.map(t => t.lamports);
+
+        check(c.name, failures, plan.reserveLamports === c.reserve, `reserve ${plan.reserveLamports}, expected ${c.reserve}`);
+        check(c.name, failures, lamports.join(',') === c.transfers.join(','), `transfers [${lamports.join(', ')}], expected [${c.transfers.join(', ')}]`);
+        check(c.name, failures, !!plan.skipReason === (c.transfers.length === 0), plan.skipReason ? `skipped (${plan.skipReason})` : 'not skipped');
+        if (plan.transfers.length > 0) {
+            const swept = lamports.reduce((sum, l) => sum + l, 0);
+            check(c.name, failures, swept + plan.reserveLamports === c.balance, `sweeps ${swept} and keeps ${plan.reserveLamports} of ${c.balance}`);
+        }
+        console.log(`${failures.some(f => f.startsWith(c.name)) ? '❌' : '✅'} ${c.name}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`   ${f}`));
+        process.exitCode = 1;
+    }
+}
+
+main().catch(e => {
+    console.error(`❌ ${e.message}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import express from 'express';
+import { VersionedTransaction } from '@solana/web3.js';
+import { loadKeypairFile } from '../lib/signer';
+
+/**
+ * Local stand-in for a remote signer service, for testing `type: "remote"` operators.
+ *
+ *   npx ts-node src/scripts/mock-remote-signer.ts ./operator-keypair.json 8787
+ *
+ * Then point an operators.json entry at it:
+ *   { "type": "remote", "url": "http://localhost:8787", "pubkey": "<operator pubkey>" }
+ */
+const keypairPath = process.argv[2] || './operator-keypair.json';
+const port = parseInt(process.argv[3] || '8787');
+const apiKey = process.env.SIGNER_API_KEY;
+
+const keypair = loadKeypairFile(keypairPath);
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.post('/', (req, res) => {
+    const { id, method, params } = req.body || {};
+
+    if (apiKey && req.header('x-api-key') !== apiKey) {
+        return res.status(401).json({ jsonrpc: '2.0', id, error: { code: -32001, message: 'Unauthorized' } });
+    }
+    if (method !== 'signTransaction' || !params?.transaction) {
+        return res.json({ jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported method ${method}` } });
+    }
+
+    try {
+        const raw = Buffer.from(params.transaction, 'base64');
+        // Legacy and v0 share the wire format, VersionedTransaction handles both
+        const tx = VersionedTransaction.deserialize(raw);
+        tx.sign([keypair]);
+        const signed = Buffer.from(tx.serialize());
+
+        console.log(`✍️  Signed transaction (${raw.length} bytes)`);
+        res.json({ jsonrpc: '2.0', id, result: { signer_pubkey: keypair.publicKey.toBase58(), signed_transaction: signed.toString('base64') } });
+    } catch (e: any) {
+        res.json({ jsonrpc: '2.0', id, error: { code: -32602, message: e.message } });
+    }
+});
+
+app.listen(port, () => {
+    console.log(`🔐 Mock remote signer for ${keypair.publicKey.toBase58()} on http://localhost:${port}`);
+});
@@ -2,15 +2,7 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getClient, getActiveAccountsForOperator, batchUpdateStatus } from '../lib/database';
 import { Reclaimer } from '../lib/reclaimer';
-// import { loadKeypair } from '../index'; // Removed invalid import
-
-// Helper since loadKeypair isn't exported cleanly
-import fs from 'fs';
-import { Keypair } from '@solana/web3.js';
-function loadKeypairLocal(path: string): Keypair {
-    const secretKey = JSON.parse(fs.readFileSync(path, 'utf-8'));
-    return Keypair.fromSecretKey(new Uint8Array(secretKey));
-}
+import { createSigner, unlockSigners } from '../lib/signer';
 
 async function main() {
     console.log("🔄 Starting Database Sync...");
@@ -48,7 +40,8 @@ async function main() {
 
     if (trulyActive.length > 0) {
         console.log(`\nAttempting to reclaim the ${trulyActive.length} remaining active accounts...`);
-        const operator = loadKeypairLocal('./operator-keypair.json');
+        const operator = createSigner({ type: 'file', path: './operator-keypair.json' });
+        await unlockSigners([operator]);
 
         // whitelist can be empty for this test
         const reclaimer = new Reclaimer(connection, operator, { whitelist: [] });